@@ -1,4 +1,4 @@
-import { useState, useMemo, useCallback } from 'react';
+import { useState, useMemo, useCallback, useEffect } from 'react';
 import {
   Navbar,
   Button,
@@ -11,8 +11,13 @@ import {
 import { MapDashboard } from './components/MapDashboard';
 import { AssetDrawer } from './components/AssetDrawer';
 import { LayerToggle } from './components/LayerToggle';
+import { TrashPanel } from './components/TrashPanel';
+import { SignInDialog } from './components/SignInDialog';
 import { useAssets } from './hooks/useAssets';
-import type { GeoJSONFeature, LayerConfig } from './types';
+import { usePermissions } from './hooks/usePermissions';
+import { ASSET_RENDERER } from './utils/api';
+import { AUTH_REQUIRED_EVENT, setAccessToken } from './utils/auth';
+import type { AssetSubscription, BBox, GeoJSONFeature, LayerConfig } from './types';
 import { usePushNotifications } from './pwa/usePushNotifications';
 
 // Import Blueprint.js styles
@@ -20,10 +25,15 @@ import '@blueprintjs/core/lib/css/blueprint.css';
 import '@blueprintjs/icons/lib/css/blueprint-icons.css';
 
 function App() {
-  const { data, loading, error, refresh } = useAssets();
   const [selectedAsset, setSelectedAsset] = useState<GeoJSONFeature | null>(null);
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
   const [editFeature, setEditFeature] = useState<GeoJSONFeature | null>(null);
+  const [trackAsset, setTrackAsset] = useState<GeoJSONFeature | null>(null);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  // Set when the server refused the credentials, with its reason
+  const [authPrompt, setAuthPrompt] = useState<{ reason?: string } | null>(null);
+  // What the user's roles allow; the UI hides the rest
+  const { user, can } = usePermissions();
   const {
     isSupported: pushSupported,
     permission: notificationPermission,
@@ -34,6 +44,22 @@ function App() {
     unsubscribeFromPush,
   } = usePushNotifications();
 
+  // Ask for a token whenever a request is refused
+  useEffect(() => {
+    const handleAuthRequired = (event: Event) => {
+      setAuthPrompt({ reason: (event as CustomEvent<{ message?: string }>).detail?.message });
+    };
+
+    window.addEventListener(AUTH_REQUIRED_EVENT, handleAuthRequired);
+    return () => window.removeEventListener(AUTH_REQUIRED_EVENT, handleAuthRequired);
+  }, []);
+
+  // Start over with the new credentials
+  const handleSignIn = (token: string) => {
+    setAccessToken(token);
+    window.location.reload();
+  };
+
   // Layer configuration
   const [layers, setLayers] = useState<LayerConfig[]>([
     { id: 'vehicle', name: 'Vehicles', type: 'vehicle', visible: true, color: '#3b82f6' },
@@ -48,6 +74,23 @@ function App() {
     return new Set(layers.filter((l) => l.visible).map((l) => l.type));
   }, [layers]);
 
+  // Visible area of the map, once it has been shown
+  const [viewBBox, setViewBBox] = useState<BBox | null>(null);
+
+  // Real-time changes of the visible asset types within the visible area
+  const subscription = useMemo<AssetSubscription>(
+    () => ({
+      ...(viewBBox ? { bbox: viewBBox } : {}),
+      types: Array.from(visibleLayers),
+    }),
+    [viewBBox, visibleLayers]
+  );
+
+  const { data, loading, error, refresh } = useAssets({
+    loadAll: ASSET_RENDERER !== 'tiles',
+    subscription,
+  });
+
   // Handle layer toggle
   const handleLayerToggle = (layerId: string) => {
     setLayers((prev) =>
@@ -108,6 +151,11 @@ function App() {
           <Tag minimal intent="none" style={{ color: '#ffffff' }}>
             Real-time
           </Tag>
+          {user && (
+            <Tag minimal icon="person" style={{ marginLeft: '8px', color: '#ffffff' }}>
+              {user.name} · {user.roles.join(', ')} · {user.tenant}
+            </Tag>
+          )}
         </Navbar.Group>
         <Navbar.Group align={Alignment.RIGHT}>
           {loading && <Spinner size={20} />}
@@ -119,6 +167,13 @@ function App() {
             text="Refresh"
             style={{ color: '#ffffff' }}
           />
+          <Button
+            icon="trash"
+            minimal
+            onClick={() => setIsTrashOpen(true)}
+            text="Trash"
+            style={{ color: '#ffffff', marginLeft: '8px' }}
+          />
           {pushSupported && (
             <>
               <Button
@@ -167,10 +222,12 @@ function App() {
           </div>
         )}
 
-        {!loading && data.features.length === 0 && (
+        {!loading && ASSET_RENDERER !== 'tiles' && data.features.length === 0 && (
           <div style={{ position: 'absolute', top: '50%', left: '50%', transform: 'translate(-50%, -50%)', zIndex: 2000 }}>
             <Callout intent="warning" title="No data">
-              No assets found. Please check your database connection and ensure the seed data is loaded.
+              {viewBBox
+                ? 'No assets in the visible area.'
+                : 'No assets found. Please check your database connection and ensure the seed data is loaded.'}
             </Callout>
           </div>
         )}
@@ -181,6 +238,10 @@ function App() {
           visibleLayers={visibleLayers}
           editFeature={editFeature}
           onEditComplete={() => setEditFeature(null)}
+          trackAsset={trackAsset}
+          onTrackClose={() => setTrackAsset(null)}
+          onExtentChange={setViewBBox}
+          can={can}
         />
 
         {/* Layer toggle */}
@@ -193,6 +254,19 @@ function App() {
         onClose={handleDrawerClose}
         asset={selectedAsset}
         onEdit={handleEditFeature}
+        onShowTrack={setTrackAsset}
+        can={can}
+      />
+
+      {/* Deleted assets */}
+      <TrashPanel isOpen={isTrashOpen} onClose={() => setIsTrashOpen(false)} can={can} />
+
+      {/* Credentials refused by the server */}
+      <SignInDialog
+        isOpen={authPrompt !== null}
+        reason={authPrompt?.reason}
+        onSignIn={handleSignIn}
+        onClose={() => setAuthPrompt(null)}
       />
     </div>
   );
@@ -1,12 +1,16 @@
-import { Drawer, Classes, H4, H5, Tag, Divider, Button, Intent } from '@blueprintjs/core';
+import { Drawer, Classes, H4, H5, Tag, Divider, Button, Intent, Tabs, Tab } from '@blueprintjs/core';
 import { IconNames } from '@blueprintjs/icons';
-import type { GeoJSONFeature } from '../types';
+import { AssetHistory } from './AssetHistory';
+import type { GeoJSONFeature, PermissionCheck } from '../types';
 
 interface AssetDrawerProps {
   isOpen: boolean;
   onClose: () => void;
   asset: GeoJSONFeature | null;
   onEdit?: (asset: GeoJSONFeature) => void;
+  onShowTrack?: (asset: GeoJSONFeature) => void;
+  // Hides the edit button from users who may neither update nor delete the asset
+  can?: PermissionCheck;
 }
 
 /**
@@ -90,10 +94,119 @@ const renderProperties = (properties: Record<string, any>) => {
   );
 };
 
-export function AssetDrawer({ isOpen, onClose, asset, onEdit }: AssetDrawerProps) {
+export function AssetDrawer({ isOpen, onClose, asset, onEdit, onShowTrack, can }: AssetDrawerProps) {
   if (!asset) return null;
 
   const { properties, geometry } = asset;
+  const canEdit =
+    !!onEdit && (!can || can('assets:update', properties.type) || can('assets:delete', properties.type));
+
+  const details = (
+    <>
+      {/* Asset Name */}
+      <H4>{properties.name}</H4>
+
+      {/* Tags */}
+      <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+        <Tag intent={getTypeIntent(properties.type)} large>
+          {properties.type}
+        </Tag>
+        <Tag intent={getStatusIntent(properties.status)} large>
+          {properties.status}
+        </Tag>
+      </div>
+
+      <Divider style={{ margin: '16px 0' }} />
+
+      {/* Basic Info */}
+      <div>
+        <H5>Information</H5>
+        <div style={{ marginTop: '8px' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', padding: '4px 0' }}>
+            <span style={{ fontWeight: 'bold' }}>ID:</span>
+            <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>
+              {properties.id.slice(0, 8)}...
+            </span>
+          </div>
+          <div style={{ display: 'flex', justifyContent: 'space-between', padding: '4px 0' }}>
+            <span style={{ fontWeight: 'bold' }}>Created:</span>
+            <span>{formatDate(properties.createdAt)}</span>
+          </div>
+          <div style={{ display: 'flex', justifyContent: 'space-between', padding: '4px 0' }}>
+            <span style={{ fontWeight: 'bold' }}>Updated:</span>
+            <span>{formatDate(properties.updatedAt)}</span>
+          </div>
+        </div>
+      </div>
+
+      <Divider style={{ margin: '16px 0' }} />
+
+      {/* Geometry Info */}
+      <div>
+        <H5>Geometry</H5>
+        <div style={{ marginTop: '8px' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', padding: '4px 0' }}>
+            <span style={{ fontWeight: 'bold' }}>Type:</span>
+            <span>{geometry.type}</span>
+          </div>
+          {geometry.type === 'Point' && Array.isArray(geometry.coordinates) && geometry.coordinates.length >= 2 && (
+            <>
+              <div
+                style={{ display: 'flex', justifyContent: 'space-between', padding: '4px 0' }}
+              >
+                <span style={{ fontWeight: 'bold' }}>Longitude:</span>
+                <span>{(geometry.coordinates as number[])[0].toFixed(6)}</span>
+              </div>
+              <div
+                style={{ display: 'flex', justifyContent: 'space-between', padding: '4px 0' }}
+              >
+                <span style={{ fontWeight: 'bold' }}>Latitude:</span>
+                <span>{(geometry.coordinates as number[])[1].toFixed(6)}</span>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Custom Properties */}
+      {renderProperties(properties)}
+
+      {/* Edit Button */}
+      {onEdit && canEdit && (
+        <div style={{ marginTop: '24px' }}>
+          <Button
+            intent={Intent.PRIMARY}
+            icon={IconNames.EDIT}
+            fill
+            large
+            onClick={() => {
+              onEdit(asset);
+              onClose();
+            }}
+          >
+            Edit Feature
+          </Button>
+        </div>
+      )}
+
+      {/* Track Playback Button */}
+      {onShowTrack && properties.type === 'vehicle' && (
+        <div style={{ marginTop: canEdit ? '8px' : '24px' }}>
+          <Button
+            icon={IconNames.ROUTE}
+            fill
+            large
+            onClick={() => {
+              onShowTrack(asset);
+              onClose();
+            }}
+          >
+            Show Track
+          </Button>
+        </div>
+      )}
+    </>
+  );
 
   return (
     <Drawer
@@ -106,91 +219,14 @@ export function AssetDrawer({ isOpen, onClose, asset, onEdit }: AssetDrawerProps
     >
       <div className={Classes.DRAWER_BODY}>
         <div className={Classes.DIALOG_BODY}>
-          {/* Asset Name */}
-          <H4>{properties.name}</H4>
-
-          {/* Tags */}
-          <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
-            <Tag intent={getTypeIntent(properties.type)} large>
-              {properties.type}
-            </Tag>
-            <Tag intent={getStatusIntent(properties.status)} large>
-              {properties.status}
-            </Tag>
-          </div>
-
-          <Divider style={{ margin: '16px 0' }} />
-
-          {/* Basic Info */}
-          <div>
-            <H5>Information</H5>
-            <div style={{ marginTop: '8px' }}>
-              <div style={{ display: 'flex', justifyContent: 'space-between', padding: '4px 0' }}>
-                <span style={{ fontWeight: 'bold' }}>ID:</span>
-                <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>
-                  {properties.id.slice(0, 8)}...
-                </span>
-              </div>
-              <div style={{ display: 'flex', justifyContent: 'space-between', padding: '4px 0' }}>
-                <span style={{ fontWeight: 'bold' }}>Created:</span>
-                <span>{formatDate(properties.createdAt)}</span>
-              </div>
-              <div style={{ display: 'flex', justifyContent: 'space-between', padding: '4px 0' }}>
-                <span style={{ fontWeight: 'bold' }}>Updated:</span>
-                <span>{formatDate(properties.updatedAt)}</span>
-              </div>
-            </div>
-          </div>
-
-          <Divider style={{ margin: '16px 0' }} />
-
-          {/* Geometry Info */}
-          <div>
-            <H5>Geometry</H5>
-            <div style={{ marginTop: '8px' }}>
-              <div style={{ display: 'flex', justifyContent: 'space-between', padding: '4px 0' }}>
-                <span style={{ fontWeight: 'bold' }}>Type:</span>
-                <span>{geometry.type}</span>
-              </div>
-              {geometry.type === 'Point' && Array.isArray(geometry.coordinates) && geometry.coordinates.length >= 2 && (
-                <>
-                  <div
-                    style={{ display: 'flex', justifyContent: 'space-between', padding: '4px 0' }}
-                  >
-                    <span style={{ fontWeight: 'bold' }}>Longitude:</span>
-                    <span>{(geometry.coordinates as number[])[0].toFixed(6)}</span>
-                  </div>
-                  <div
-                    style={{ display: 'flex', justifyContent: 'space-between', padding: '4px 0' }}
-                  >
-                    <span style={{ fontWeight: 'bold' }}>Latitude:</span>
-                    <span>{(geometry.coordinates as number[])[1].toFixed(6)}</span>
-                  </div>
-                </>
-              )}
-            </div>
-          </div>
-
-          {/* Custom Properties */}
-          {renderProperties(properties)}
-
-          {/* Edit Button */}
-          {onEdit && (
-            <div style={{ marginTop: '24px' }}>
-              <Button
-                intent={Intent.PRIMARY}
-                icon={IconNames.EDIT}
-                fill
-                large
-                onClick={() => {
-                  onEdit(asset);
-                  onClose();
-                }}
-              >
-                Edit Feature
-              </Button>
-            </div>
-          )}
+          <Tabs id="asset-drawer-tabs" defaultSelectedTabId="details" renderActiveTabPanelOnly>
+            <Tab id="details" title="Details" panel={details} />
+            <Tab
+              id="history"
+              title="History"
+              panel={<AssetHistory key={properties.id} assetId={properties.id} />}
+            />
+          </Tabs>
         </div>
       </div>
     </Drawer>
@@ -0,0 +1,204 @@
+import { useEffect, useState } from 'react';
+import { Button, Callout, Card, NonIdealState, Spinner, Tag } from '@blueprintjs/core';
+import { IconNames } from '@blueprintjs/icons';
+import { fetchAssetHistory } from '../utils/api';
+import type { AssetOperation, AssetVersion } from '../types';
+
+interface AssetHistoryProps {
+  assetId: string;
+}
+
+interface FieldChange {
+  field: string;
+  before?: string;
+  after?: string;
+}
+
+const PAGE_SIZE = 20;
+
+const operationLabels: Record<AssetOperation, string> = {
+  create: 'Created',
+  update: 'Updated',
+  geometry_update: 'Geometry updated',
+  delete: 'Deleted',
+  restore: 'Restored',
+};
+
+/**
+ * Get color for operation tag
+ */
+const getOperationIntent = (operation: AssetOperation) => {
+  switch (operation) {
+    case 'create':
+    case 'restore':
+      return 'success';
+    case 'delete':
+      return 'danger';
+    case 'geometry_update':
+      return 'primary';
+    default:
+      return 'none';
+  }
+};
+
+/**
+ * Format a value for display in the diff
+ */
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+/**
+ * List the fields that changed between the old and new values of a version
+ */
+const diffVersion = ({ operation, oldValues, newValues }: AssetVersion): FieldChange[] => {
+  if (operation === 'delete' || !newValues) return [];
+
+  const changes: FieldChange[] = [];
+
+  for (const field of ['name', 'type', 'status'] as const) {
+    if (oldValues?.[field] !== newValues[field]) {
+      changes.push({
+        field,
+        before: oldValues ? formatValue(oldValues[field]) : undefined,
+        after: formatValue(newValues[field]),
+      });
+    }
+  }
+
+  if (JSON.stringify(oldValues?.geometry) !== JSON.stringify(newValues.geometry)) {
+    changes.push({
+      field: 'geometry',
+      before: oldValues?.geometry?.type,
+      after: newValues.geometry?.type,
+    });
+  }
+
+  const oldProperties = oldValues?.properties || {};
+  const newProperties = newValues.properties || {};
+  const keys = new Set([...Object.keys(oldProperties), ...Object.keys(newProperties)]);
+
+  keys.forEach((key) => {
+    if (JSON.stringify(oldProperties[key]) !== JSON.stringify(newProperties[key])) {
+      changes.push({
+        field: key.replace(/_/g, ' '),
+        before: key in oldProperties ? formatValue(oldProperties[key]) : undefined,
+        after: key in newProperties ? formatValue(newProperties[key]) : undefined,
+      });
+    }
+  });
+
+  return changes;
+};
+
+/**
+ * Paginated list of an asset's versions with the fields changed in each
+ */
+export function AssetHistory({ assetId }: AssetHistoryProps) {
+  const [versions, setVersions] = useState<AssetVersion[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the first page
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchAssetHistory(assetId, { limit: PAGE_SIZE })
+      .then((page) => {
+        if (cancelled) return;
+        setVersions(page.versions);
+        setTotal(page.total);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Error loading asset history:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [assetId]);
+
+  const handleLoadMore = async () => {
+    try {
+      setLoading(true);
+      const page = await fetchAssetHistory(assetId, { limit: PAGE_SIZE, offset: versions.length });
+      setVersions((prev) => [...prev, ...page.versions]);
+      setTotal(page.total);
+    } catch (err) {
+      console.error('Error loading asset history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <Callout intent="danger" title="Error loading history">
+        {error}
+      </Callout>
+    );
+  }
+
+  if (!loading && versions.length === 0) {
+    return <NonIdealState icon={IconNames.HISTORY} title="No history recorded" />;
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+      {versions.map((version) => {
+        const changes = diffVersion(version);
+
+        return (
+          <Card key={version.version} compact>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                <strong>v{version.version}</strong>
+                <Tag intent={getOperationIntent(version.operation)} minimal>
+                  {operationLabels[version.operation]}
+                </Tag>
+              </div>
+              <span style={{ fontSize: '12px' }}>{new Date(version.changedAt).toLocaleString()}</span>
+            </div>
+
+            {changes.length > 0 && (
+              <div style={{ marginTop: '8px', fontSize: '12px' }}>
+                {changes.map((change) => (
+                  <div
+                    key={change.field}
+                    style={{ display: 'flex', justifyContent: 'space-between', gap: '8px', padding: '2px 0' }}
+                  >
+                    <span style={{ fontWeight: 'bold', textTransform: 'capitalize' }}>{change.field}:</span>
+                    <span style={{ textAlign: 'right', wordBreak: 'break-all' }}>
+                      {change.before !== undefined && (
+                        <span style={{ textDecoration: 'line-through', opacity: 0.6, marginRight: '6px' }}>
+                          {change.before}
+                        </span>
+                      )}
+                      {change.after ?? '—'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+        );
+      })}
+
+      {loading && <Spinner size={20} />}
+
+      {!loading && versions.length < total && (
+        <Button icon={IconNames.MORE} minimal fill onClick={handleLoadMore}>
+          Load older versions
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { Button, Callout, Dialog, HTMLTable, Intent } from '@blueprintjs/core';
+import { IconNames } from '@blueprintjs/icons';
+import type { AssetFormValues } from '../types';
+
+interface ConflictDialogProps {
+  isOpen: boolean;
+  edits: AssetFormValues;
+  latest: AssetFormValues;
+  latestVersion?: number;
+  onOverwrite: () => void;
+  onUseLatest: () => void;
+  onCancel: () => void;
+}
+
+interface FieldComparison {
+  field: string;
+  mine: string;
+  latest: string;
+  differs: boolean;
+}
+
+/**
+ * Format a value for display in the comparison
+ */
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+/**
+ * Compare the user's edits with the latest values, field by field
+ */
+const compareValues = (edits: AssetFormValues, latest: AssetFormValues): FieldComparison[] => {
+  const fields: FieldComparison[] = (['name', 'type', 'status'] as const).map((field) => ({
+    field,
+    mine: formatValue(edits[field]),
+    latest: formatValue(latest[field]),
+    differs: edits[field] !== latest[field],
+  }));
+
+  const keys = new Set([...Object.keys(edits.properties), ...Object.keys(latest.properties)]);
+
+  keys.forEach((key) => {
+    fields.push({
+      field: key.replace(/_/g, ' '),
+      mine: formatValue(edits.properties[key]),
+      latest: formatValue(latest.properties[key]),
+      differs: JSON.stringify(edits.properties[key]) !== JSON.stringify(latest.properties[key]),
+    });
+  });
+
+  return fields;
+};
+
+/**
+ * Shown when saving an asset that someone else changed in the meantime
+ * Lets the user overwrite the latest values, take them over, or keep editing.
+ */
+export function ConflictDialog({
+  isOpen,
+  edits,
+  latest,
+  latestVersion,
+  onOverwrite,
+  onUseLatest,
+  onCancel,
+}: ConflictDialogProps) {
+  const comparison = compareValues(edits, latest);
+
+  return (
+    <Dialog
+      isOpen={isOpen}
+      onClose={onCancel}
+      title="Edit Conflict"
+      icon={IconNames.WARNING_SIGN}
+      style={{ width: '560px', paddingBottom: 0 }}
+    >
+      <div className="bp5-dialog-body">
+        <Callout intent={Intent.WARNING} style={{ marginBottom: '12px' }}>
+          This asset was changed by someone else while you were editing it
+          {latestVersion !== undefined && ` (now version ${latestVersion})`}. Highlighted fields differ from your
+          edits.
+        </Callout>
+
+        <HTMLTable compact striped style={{ width: '100%', fontSize: '12px' }}>
+          <thead>
+            <tr>
+              <th>Field</th>
+              <th>Your edits</th>
+              <th>Latest</th>
+            </tr>
+          </thead>
+          <tbody>
+            {comparison.map((row) => (
+              <tr key={row.field} style={row.differs ? { fontWeight: 'bold', color: '#fbb360' } : undefined}>
+                <td style={{ textTransform: 'capitalize' }}>{row.field}</td>
+                <td style={{ wordBreak: 'break-all' }}>{row.mine}</td>
+                <td style={{ wordBreak: 'break-all' }}>{row.latest}</td>
+              </tr>
+            ))}
+          </tbody>
+        </HTMLTable>
+      </div>
+
+      <div className="bp5-dialog-footer">
+        <div className="bp5-dialog-footer-actions">
+          <Button onClick={onCancel}>Keep Editing</Button>
+          <Button icon={IconNames.REFRESH} onClick={onUseLatest}>
+            Use Latest Values
+          </Button>
+          <Button intent={Intent.DANGER} icon={IconNames.TICK} onClick={onOverwrite}>
+            Overwrite
+          </Button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
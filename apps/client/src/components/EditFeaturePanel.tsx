@@ -11,7 +11,16 @@ import {
   Alert,
 } from '@blueprintjs/core';
 import { IconNames } from '@blueprintjs/icons';
-import type { AssetType, AssetStatus, GeoJSONFeature } from '../types';
+import { ConflictDialog } from './ConflictDialog';
+import { AssetConflictError, errorMessage } from '../utils/api';
+import type {
+  AssetType,
+  AssetStatus,
+  AssetFormValues,
+  AssetProperties,
+  GeoJSONFeature,
+  PermissionCheck,
+} from '../types';
 
 interface EditFeaturePanelProps {
   feature: GeoJSONFeature | null;
@@ -25,11 +34,30 @@ interface EditFeaturePanelProps {
       status: AssetStatus;
       geometry: GeoJSON.Geometry;
       properties?: Record<string, any>;
-    }
-  ) => void;
+    },
+    version?: number
+  ) => Promise<void>;
   onDelete: (id: string) => void;
+  // Read-only fields and no delete button for users who may not use them
+  can?: PermissionCheck;
 }
 
+const TYPE_OPTIONS: { value: AssetType; label: string }[] = [
+  { value: 'poi', label: 'Point of Interest' },
+  { value: 'zone', label: 'Zone' },
+  { value: 'incident', label: 'Incident' },
+  { value: 'vehicle', label: 'Vehicle' },
+  { value: 'route', label: 'Route' },
+];
+
+/**
+ * Custom properties of an asset (excluding standard ones)
+ */
+const extractCustomProperties = (properties: AssetProperties) => {
+  const { id, name, type, status, createdAt, updatedAt, version, ...custom } = properties;
+  return custom;
+};
+
 /**
  * Panel for editing existing geospatial features
  */
@@ -39,6 +67,7 @@ export function EditFeaturePanel({
   onClose,
   onSave,
   onDelete,
+  can = () => true,
 }: EditFeaturePanelProps) {
   const [name, setName] = useState('');
   const [type, setType] = useState<AssetType>('poi');
@@ -46,6 +75,10 @@ export function EditFeaturePanel({
   const [customProperties, setCustomProperties] = useState('{}');
   const [error, setError] = useState('');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  // Latest copy of the asset, once a conflict showed it; saves are based on it
+  const [latest, setLatest] = useState<GeoJSONFeature | null>(null);
+  const [conflict, setConflict] = useState<{ latest: GeoJSONFeature; edits: AssetFormValues } | null>(null);
 
   useEffect(() => {
     if (feature) {
@@ -53,67 +86,116 @@ export function EditFeaturePanel({
       setType(feature.properties.type || 'poi');
       setStatus(feature.properties.status || 'active');
 
-      // Extract custom properties (excluding standard ones)
-      const { id, name: _name, type: _type, status: _status, createdAt, updatedAt, ...custom } =
-        feature.properties;
-      setCustomProperties(JSON.stringify(custom, null, 2));
+      setCustomProperties(JSON.stringify(extractCustomProperties(feature.properties), null, 2));
     }
   }, [feature]);
 
-  const handleSave = () => {
-    if (!feature) return;
+  const handleClose = () => {
+    setLatest(null);
+    setConflict(null);
+    setError('');
+    onClose();
+  };
 
-    try {
-      setError('');
+  /**
+   * Read and validate the form
+   */
+  const readEdits = (): AssetFormValues | null => {
+    // Validate name
+    if (!name.trim()) {
+      setError('Name is required');
+      return null;
+    }
 
-      // Validate name
-      if (!name.trim()) {
-        setError('Name is required');
-        return;
+    // Parse custom properties
+    let properties = {};
+    if (customProperties.trim()) {
+      try {
+        properties = JSON.parse(customProperties);
+      } catch (e) {
+        setError('Invalid JSON in custom properties');
+        return null;
       }
+    }
 
-      // Parse custom properties
-      let properties = {};
-      if (customProperties.trim()) {
-        try {
-          properties = JSON.parse(customProperties);
-        } catch (e) {
-          setError('Invalid JSON in custom properties');
-          return;
-        }
-      }
+    return { name: name.trim(), type, status, properties };
+  };
 
-      onSave(feature.id, {
-        name: name.trim(),
-        type,
-        status,
-        geometry: feature.geometry as any,
-        properties,
-      });
+  /**
+   * Save the form over a version of the asset
+   * The geometry is not edited here, so the version's geometry is kept.
+   */
+  const save = async (base: GeoJSONFeature) => {
+    if (!feature) return;
+
+    setError('');
+    const edits = readEdits();
+    if (!edits) return;
 
-      onClose();
+    try {
+      setSaving(true);
+      await onSave(
+        feature.id,
+        { ...edits, geometry: base.geometry as any },
+        base.properties.version
+      );
+      handleClose();
     } catch (e) {
-      setError('An error occurred while saving');
+      if (e instanceof AssetConflictError) {
+        setConflict({ latest: e.current, edits });
+        return;
+      }
+      setError(errorMessage(e, 'An error occurred while saving'));
       console.error(e);
+    } finally {
+      setSaving(false);
     }
   };
 
+  const handleSave = () => {
+    if (!feature) return;
+    save(latest ?? feature);
+  };
+
+  // Save the edits over the latest version
+  const handleOverwrite = () => {
+    if (!conflict) return;
+    setLatest(conflict.latest);
+    setConflict(null);
+    save(conflict.latest);
+  };
+
+  // Replace the form with the latest values
+  const handleUseLatest = () => {
+    if (!conflict) return;
+    const { properties } = conflict.latest;
+    setName(properties.name || '');
+    setType(properties.type || 'poi');
+    setStatus(properties.status || 'active');
+    setCustomProperties(JSON.stringify(extractCustomProperties(properties), null, 2));
+    setLatest(conflict.latest);
+    setConflict(null);
+  };
+
   const handleDelete = () => {
     if (!feature) return;
     onDelete(feature.id);
     setShowDeleteConfirm(false);
-    onClose();
+    handleClose();
   };
 
   if (!feature) {
     return null;
   }
 
+  const canUpdate = can('assets:update', feature.properties.type);
+  const canDelete = can('assets:delete', feature.properties.type);
+
   return (
     <>
       <Dialog
         isOpen={isOpen}
-        onClose={onClose}
+        onClose={handleClose}
         title="Edit Feature"
         icon={IconNames.EDIT}
         style={{ width: '500px', paddingBottom: 0 }}
@@ -125,11 +207,18 @@ export function EditFeaturePanel({
             </Callout>
           )}
 
+          {!canUpdate && (
+            <Callout intent={Intent.WARNING} style={{ marginBottom: '12px' }}>
+              Your role does not allow changing {feature.properties.type} assets.
+            </Callout>
+          )}
+
           <FormGroup label="Name" labelFor="edit-name-input" labelInfo="(required)">
             <InputGroup
               id="edit-name-input"
               value={name}
               onChange={(e) => setName(e.target.value)}
+              disabled={!canUpdate}
               autoFocus
             />
           </FormGroup>
@@ -139,13 +228,15 @@ export function EditFeaturePanel({
               id="edit-type-select"
               value={type}
               onChange={(e) => setType(e.target.value as AssetType)}
+              disabled={!canUpdate}
               fill
             >
-              <option value="poi">Point of Interest</option>
-              <option value="zone">Zone</option>
-              <option value="incident">Incident</option>
-              <option value="vehicle">Vehicle</option>
-              <option value="route">Route</option>
+              {/* Changing the type needs the permission for the new type too */}
+              {TYPE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value} disabled={!can('assets:update', option.value)}>
+                  {option.label}
+                </option>
+              ))}
             </HTMLSelect>
           </FormGroup>
 
@@ -154,6 +245,7 @@ export function EditFeaturePanel({
               id="edit-status-select"
               value={status}
               onChange={(e) => setStatus(e.target.value as AssetStatus)}
+              disabled={!canUpdate}
               fill
             >
               <option value="active">Active</option>
@@ -180,6 +272,7 @@ export function EditFeaturePanel({
               id="edit-props-input"
               value={customProperties}
               onChange={(e) => setCustomProperties(e.target.value)}
+              disabled={!canUpdate}
               fill
               style={{ fontFamily: 'monospace', fontSize: '12px', minHeight: '100px' }}
             />
@@ -188,16 +281,24 @@ export function EditFeaturePanel({
 
         <div className="bp5-dialog-footer">
           <div className="bp5-dialog-footer-actions">
+            {canDelete && (
+              <Button
+                intent={Intent.DANGER}
+                icon={IconNames.TRASH}
+                onClick={() => setShowDeleteConfirm(true)}
+              >
+                Delete
+              </Button>
+            )}
+            <div style={{ flex: 1 }} />
+            <Button onClick={handleClose}>Cancel</Button>
             <Button
-              intent={Intent.DANGER}
-              icon={IconNames.TRASH}
-              onClick={() => setShowDeleteConfirm(true)}
+              intent={Intent.PRIMARY}
+              onClick={handleSave}
+              icon={IconNames.TICK}
+              loading={saving}
+              disabled={!canUpdate}
             >
-              Delete
-            </Button>
-            <div style={{ flex: 1 }} />
-            <Button onClick={onClose}>Cancel</Button>
-            <Button intent={Intent.PRIMARY} onClick={handleSave} icon={IconNames.TICK}>
               Save Changes
             </Button>
           </div>
@@ -218,6 +319,23 @@ export function EditFeaturePanel({
         </p>
         <p>This action cannot be undone.</p>
       </Alert>
+
+      {conflict && (
+        <ConflictDialog
+          isOpen
+          edits={conflict.edits}
+          latest={{
+            name: conflict.latest.properties.name,
+            type: conflict.latest.properties.type,
+            status: conflict.latest.properties.status,
+            properties: extractCustomProperties(conflict.latest.properties),
+          }}
+          latestVersion={conflict.latest.properties.version}
+          onOverwrite={handleOverwrite}
+          onUseLatest={handleUseLatest}
+          onCancel={() => setConflict(null)}
+        />
+      )}
     </>
   );
 }
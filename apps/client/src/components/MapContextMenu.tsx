@@ -1,5 +1,6 @@
 import { Menu, MenuItem, MenuDivider } from '@blueprintjs/core';
 import { IconNames } from '@blueprintjs/icons';
+import type { PermissionCheck } from '../types';
 
 interface MapContextMenuProps {
   x: number;
@@ -10,7 +11,11 @@ interface MapContextMenuProps {
   onCreateZone: (lng: number, lat: number) => void;
   onPrecisionInput: (lng: number, lat: number) => void;
   onCopyLocation: (lng: number, lat: number) => void;
+  onFindNearest: (lng: number, lat: number) => void;
+  onSearchArea: () => void;
   onClose: () => void;
+  // Create actions are only listed for users allowed to create assets
+  can?: PermissionCheck;
 }
 
 /**
@@ -25,8 +30,13 @@ export function MapContextMenu({
   onCreateZone,
   onPrecisionInput,
   onCopyLocation,
+  onFindNearest,
+  onSearchArea,
   onClose,
+  can = () => true,
 }: MapContextMenuProps) {
+  const canCreate = can('assets:create');
+
   return (
     <div
       style={{
@@ -42,31 +52,55 @@ export function MapContextMenu({
       onMouseLeave={onClose}
     >
       <Menu>
+        {canCreate && (
+          <MenuItem
+            icon={IconNames.MAP_MARKER}
+            text="Create Point Here"
+            onClick={() => {
+              onCreatePoint(longitude, latitude);
+              onClose();
+            }}
+          />
+        )}
+        {can('assets:create', 'zone') && (
+          <MenuItem
+            icon={IconNames.POLYGON_FILTER}
+            text="Create Zone"
+            onClick={() => {
+              onCreateZone(longitude, latitude);
+              onClose();
+            }}
+          />
+        )}
         <MenuItem
-          icon={IconNames.MAP_MARKER}
-          text="Create Point Here"
+          icon={IconNames.DRIVE_TIME}
+          text="Find nearest vehicles"
           onClick={() => {
-            onCreatePoint(longitude, latitude);
+            onFindNearest(longitude, latitude);
             onClose();
           }}
         />
         <MenuItem
-          icon={IconNames.POLYGON_FILTER}
-          text="Create Zone"
-          onClick={() => {
-            onCreateZone(longitude, latitude);
-            onClose();
-          }}
-        />
-        <MenuDivider />
-        <MenuItem
-          icon={IconNames.NUMERICAL}
-          text="Precision Input..."
+          icon={IconNames.SEARCH_AROUND}
+          text="Search Area..."
           onClick={() => {
-            onPrecisionInput(longitude, latitude);
+            onSearchArea();
             onClose();
           }}
         />
+        {canCreate && (
+          <>
+            <MenuDivider />
+            <MenuItem
+              icon={IconNames.NUMERICAL}
+              text="Precision Input..."
+              onClick={() => {
+                onPrecisionInput(longitude, latitude);
+                onClose();
+              }}
+            />
+          </>
+        )}
         <MenuDivider />
         <MenuItem
           icon={IconNames.GEOLOCATION}
@@ -8,16 +8,47 @@ import Point from '@arcgis/core/geometry/Point';
 import Polygon from '@arcgis/core/geometry/Polygon';
 import Polyline from '@arcgis/core/geometry/Polyline';
 import WebTileLayer from '@arcgis/core/layers/WebTileLayer';
+import SimpleMarkerSymbol from '@arcgis/core/symbols/SimpleMarkerSymbol';
+import SimpleLineSymbol from '@arcgis/core/symbols/SimpleLineSymbol';
+import SimpleFillSymbol from '@arcgis/core/symbols/SimpleFillSymbol';
+import TextSymbol from '@arcgis/core/symbols/TextSymbol';
+import VectorTileLayer from '@arcgis/core/layers/VectorTileLayer';
 import Basemap from '@arcgis/core/Basemap';
+import type Extent from '@arcgis/core/geometry/Extent';
+import * as reactiveUtils from '@arcgis/core/core/reactiveUtils';
 import * as webMercatorUtils from "@arcgis/core/geometry/support/webMercatorUtils";
+import type { GeometryUnion } from '@arcgis/core/unionTypes';
 import { OverlayToaster, Intent } from '@blueprintjs/core';
 import '@arcgis/core/assets/esri/themes/dark/main.css';
 
-import type { GeoJSONFeatureCollection, GeoJSONFeature, AssetType, AssetStatus } from '../types';
+import type {
+  GeoJSONFeatureCollection,
+  GeoJSONFeature,
+  GeoJSONGeometry,
+  AssetType,
+  AssetStatus,
+  AssetTrack,
+  BBox,
+  PermissionCheck,
+  SpatialPredicate,
+} from '../types';
 import { MapContextMenu } from './MapContextMenu';
+import { SpatialSearchPanel, type SearchTool } from './SpatialSearchPanel';
 import { PrecisionInputModal } from './PrecisionInputModal';
 import { EditFeaturePanel } from './EditFeaturePanel';
-import { createAsset, updateAsset, deleteAsset } from '../utils/api';
+import { TrackPlayback } from './TrackPlayback';
+import {
+  createAsset,
+  updateAsset,
+  deleteAsset,
+  fetchAsset,
+  fetchNearestAssets,
+  searchAssets,
+  errorMessage,
+  ASSET_RENDERER,
+  assetTileUrl,
+} from '../utils/api';
+import { trackPositionAt } from '../utils/track';
 
 interface MapDashboardProps {
   data: GeoJSONFeatureCollection;
@@ -25,8 +56,19 @@ interface MapDashboardProps {
   visibleLayers?: Set<string>;
   editFeature?: GeoJSONFeature | null;
   onEditComplete?: () => void;
+  trackAsset?: GeoJSONFeature | null;
+  onTrackClose?: () => void;
+  /**
+   * Called with the visible area whenever the view stops moving; null when
+   * the view wraps around the world
+   */
+  onExtentChange?: (bbox: BBox | null) => void;
+  // Hides the create, edit and delete actions the user may not use
+  can?: PermissionCheck;
 }
 
+const ASSET_TYPES: AssetType[] = ['poi', 'zone', 'incident', 'vehicle', 'route'];
+
 // Create a toaster instance
 let toasterInstance: any = null;
 const getToaster = async () => {
@@ -159,18 +201,208 @@ const getPointRadius = (type: string, status: string): number => {
   return type === 'vehicle' ? 8 : type === 'incident' ? 10 : 6;
 };
 
-export function MapDashboard({ data, onFeatureClick, visibleLayers, editFeature, onEditComplete }: MapDashboardProps) {
+// Number of vehicles returned by "Find nearest vehicles"
+const NEAREST_COUNT = 5;
+const HIGHLIGHT_COLOR = [34, 211, 238]; // Cyan
+
+const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+
+// Ring (points) or outline (lines, polygons) drawn over a highlighted asset
+const highlightGraphic = (feature: GeoJSONFeature): Graphic | null => {
+  const graphic = geoJSONToGraphic(feature);
+  if (!graphic) return null;
+
+  if (graphic.geometry?.type === 'point') {
+    graphic.symbol = new SimpleMarkerSymbol({
+      color: [0, 0, 0, 0],
+      size: 22,
+      outline: { color: HIGHLIGHT_COLOR, width: 3 }
+    });
+  } else if (graphic.geometry?.type === 'polyline') {
+    graphic.symbol = new SimpleLineSymbol({ color: HIGHLIGHT_COLOR, width: 5 });
+  } else {
+    graphic.symbol = new SimpleFillSymbol({
+      color: [0, 0, 0, 0],
+      outline: { color: HIGHLIGHT_COLOR, width: 3 }
+    });
+  }
+
+  return graphic;
+};
+
+const SEARCH_COLOR = [250, 204, 21]; // Amber
+
+const TRACK_COLOR = [244, 114, 182]; // Pink
+// Tracks with more positions are drawn without breadcrumb dots
+const TRACK_MAX_BREADCRUMBS = 1000;
+
+// Convert a sketched ArcGIS geometry to a WGS84 GeoJSON geometry
+const toGeoJSONGeometry = (geometry: GeometryUnion): GeoJSONGeometry | null => {
+  const geographic = geometry.spatialReference?.isWebMercator
+    ? webMercatorUtils.webMercatorToGeographic(geometry) as GeometryUnion
+    : geometry;
+
+  if (geographic.type === 'polygon') {
+    return { type: 'Polygon', coordinates: geographic.rings };
+  }
+  if (geographic.type === 'polyline') {
+    return { type: 'LineString', coordinates: geographic.paths[0] };
+  }
+  if (geographic.type === 'point') {
+    return { type: 'Point', coordinates: [geographic.x, geographic.y] };
+  }
+  return null;
+};
+
+// Tile layers served by /api/tiles, in drawing order
+const TILE_LAYER_TYPES = ['zone', 'route', 'poi', 'incident', 'vehicle'];
+
+// Wait for bursts of real-time updates to settle before reloading tiles
+const TILE_REFRESH_DELAY = 1000;
+
+const toRgba = (color: number[], alpha = 1) => `rgba(${color.slice(0, 3).join(', ')}, ${alpha})`;
+
+// Categorical style function mirroring getFeatureColor: status wins over type
+const statusColor = (type: string, alpha = 1) => ({
+  property: 'status',
+  type: 'categorical',
+  stops: [
+    ['critical', toRgba(getFeatureColor(type, 'critical'), alpha)],
+    ['warning', toRgba(getFeatureColor(type, 'warning'), alpha)],
+  ],
+  default: toRgba(getFeatureColor(type, 'active'), alpha),
+});
+
+const statusRadius = (type: string) => ({
+  property: 'status',
+  type: 'categorical',
+  stops: [
+    ['critical', getPointRadius(type, 'critical') / 2],
+    ['warning', getPointRadius(type, 'warning') / 2],
+  ],
+  default: getPointRadius(type, 'active') / 2,
+});
+
+// Style layer ids of an asset type
+const tileStyleLayerIds = (type: string) => [`${type}-fill`, `${type}-line`, `${type}-circle`];
+
+// Mapbox GL style for the asset vector tiles, same symbology as geoJSONToGraphic
+const createAssetTileStyle = () => ({
+  version: 8,
+  sources: {
+    assets: {
+      type: 'vector',
+      tiles: [assetTileUrl()],
+      minzoom: 0,
+      maxzoom: 22,
+    },
+  },
+  layers: TILE_LAYER_TYPES.flatMap((type) => [
+    {
+      id: `${type}-fill`,
+      type: 'fill',
+      source: 'assets',
+      'source-layer': type,
+      filter: ['==', '$type', 'Polygon'],
+      paint: { 'fill-color': statusColor(type, 0.4) },
+    },
+    {
+      id: `${type}-line`,
+      type: 'line',
+      source: 'assets',
+      'source-layer': type,
+      filter: ['!=', '$type', 'Point'],
+      paint: { 'line-color': statusColor(type), 'line-width': 2 },
+    },
+    {
+      id: `${type}-circle`,
+      type: 'circle',
+      source: 'assets',
+      'source-layer': type,
+      filter: ['==', '$type', 'Point'],
+      paint: {
+        'circle-color': statusColor(type),
+        'circle-radius': statusRadius(type),
+        'circle-stroke-color': 'rgba(255, 255, 255, 0.5)',
+        'circle-stroke-width': 1,
+      },
+    },
+  ]),
+});
+
+/**
+ * Geographic bounding box of a view extent
+ */
+function extentToBBox(extent: Extent): BBox | null {
+  const parts = extent.clone().normalize();
+  if (parts.length !== 1) return null;
+
+  const geographic = webMercatorUtils.webMercatorToGeographic(parts[0]) as Extent;
+
+  return [
+    Math.max(geographic.xmin, -180),
+    Math.max(geographic.ymin, -90),
+    Math.min(geographic.xmax, 180),
+    Math.min(geographic.ymax, 90),
+  ];
+}
+
+export function MapDashboard({
+  data,
+  onFeatureClick,
+  visibleLayers,
+  editFeature,
+  onEditComplete,
+  trackAsset,
+  onTrackClose,
+  onExtentChange,
+  can = () => true,
+}: MapDashboardProps) {
   const mapDiv = useRef<HTMLDivElement>(null);
   const viewRef = useRef<MapView | null>(null);
   const graphicsLayerRef = useRef<GraphicsLayer | null>(null);
+  const tileLayerRef = useRef<VectorTileLayer | null>(null);
+  const highlightLayerRef = useRef<GraphicsLayer | null>(null);
+  const searchLayerRef = useRef<GraphicsLayer | null>(null);
+  const searchShapeRef = useRef<Graphic | null>(null);
+  const trackLayerRef = useRef<GraphicsLayer | null>(null);
+  // Travelled part of the track and the vehicle marker, moved during playback
+  const trackPlaybackRef = useRef<{ travelled: Graphic; marker: Graphic } | null>(null);
+  // What the next completed sketch is for: creating an asset or a spatial search
+  const sketchPurposeRef = useRef<'create' | 'search'>('create');
+  const runSearchRef = useRef<(geometry: GeoJSONGeometry) => void>(() => undefined);
   const sketchLayerRef = useRef<GraphicsLayer | null>(null);
   const sketchVMRef = useRef<SketchViewModel | null>(null);
   const onFeatureClickRef = useRef(onFeatureClick);
+  const onExtentChangeRef = useRef(onExtentChange);
 
   useEffect(() => {
     onFeatureClickRef.current = onFeatureClick;
   }, [onFeatureClick]);
 
+  useEffect(() => {
+    onExtentChangeRef.current = onExtentChange;
+  }, [onExtentChange]);
+
+  const [search, setSearch] = useState<{
+    isOpen: boolean;
+    predicate: SpatialPredicate;
+    distance: number;
+    geometry: GeoJSONGeometry | null;
+    results: GeoJSONFeature[] | null;
+    loading: boolean;
+    error: string | null;
+  }>({
+    isOpen: false,
+    predicate: 'intersects',
+    distance: 500,
+    geometry: null,
+    results: null,
+    loading: false,
+    error: null,
+  });
+
   const [contextMenu, setContextMenu] = useState<{
     isOpen: boolean;
     x: number;
@@ -215,10 +447,27 @@ export function MapDashboard({ data, onFeatureClick, visibleLayers, editFeature,
     });
 
     const graphicsLayer = new GraphicsLayer();
+    const highlightLayer = new GraphicsLayer();
+    const searchLayer = new GraphicsLayer();
+    const trackLayer = new GraphicsLayer();
     const sketchLayer = new GraphicsLayer();
-    map.addMany([graphicsLayer, sketchLayer]);
+
+    // Tiles mode: assets come from /api/tiles instead of the graphics layer
+    const tileLayer = ASSET_RENDERER === 'tiles'
+      ? new VectorTileLayer({ style: createAssetTileStyle() })
+      : null;
+
+    map.addMany(
+      tileLayer
+        ? [tileLayer, graphicsLayer, searchLayer, trackLayer, highlightLayer, sketchLayer]
+        : [graphicsLayer, searchLayer, trackLayer, highlightLayer, sketchLayer]
+    );
 
     graphicsLayerRef.current = graphicsLayer;
+    tileLayerRef.current = tileLayer;
+    highlightLayerRef.current = highlightLayer;
+    searchLayerRef.current = searchLayer;
+    trackLayerRef.current = trackLayer;
     sketchLayerRef.current = sketchLayer;
 
     const view = new MapView({
@@ -230,6 +479,13 @@ export function MapDashboard({ data, onFeatureClick, visibleLayers, editFeature,
 
     viewRef.current = view;
 
+    // Report the visible area once panning or zooming ends
+    const extentWatch = reactiveUtils.when(
+      () => (view.stationary ? view.extent : null),
+      (extent) => onExtentChangeRef.current?.(extentToBBox(extent)),
+      { initial: true }
+    );
+
     // Initialize SketchViewModel
     const sketchVM = new SketchViewModel({
       view: view,
@@ -248,6 +504,35 @@ export function MapDashboard({ data, onFeatureClick, visibleLayers, editFeature,
     });
 
     sketchVM.on("create", (event) => {
+      if (sketchPurposeRef.current === 'search') {
+        if (event.state === "complete" || event.state === "cancel") {
+          sketchPurposeRef.current = 'create';
+        }
+
+        if (event.state === "complete") {
+          // Keep the shape on the search layer and search against it
+          const graphic = event.graphic;
+          const geometry = graphic.geometry ? toGeoJSONGeometry(graphic.geometry) : null;
+          sketchLayer.remove(graphic);
+
+          if (geometry) {
+            graphic.symbol = graphic.geometry?.type === 'point'
+              ? new SimpleMarkerSymbol({ style: "x", size: 14, outline: { color: SEARCH_COLOR, width: 2 } })
+              : graphic.geometry?.type === 'polyline'
+                ? new SimpleLineSymbol({ color: SEARCH_COLOR, width: 2, style: "dash" })
+                : new SimpleFillSymbol({
+                    color: [...SEARCH_COLOR, 0.15],
+                    outline: { color: SEARCH_COLOR, width: 2, style: "dash" }
+                  });
+            searchShapeRef.current = graphic;
+            searchLayer.removeAll();
+            searchLayer.add(graphic);
+            runSearchRef.current(geometry);
+          }
+        }
+        return;
+      }
+
       if (event.state === "complete") {
         // Open modal with geometry
         const graphic = event.graphic;
@@ -329,7 +614,23 @@ export function MapDashboard({ data, onFeatureClick, visibleLayers, editFeature,
       });
 
       // Check for feature click
-      view.hitTest(event).then((response) => {
+      view.hitTest(event).then(async (response) => {
+        // Tile features only carry attributes, so load the full asset
+        const tileHit = tileLayer && response.results.find(
+          (result) => result.layer === tileLayer
+        );
+
+        if (tileHit && tileHit.type === "graphic" && tileHit.graphic.attributes?.id) {
+          if (!onFeatureClickRef.current) return;
+          try {
+            const feature: GeoJSONFeature = await fetchAsset(tileHit.graphic.attributes.id);
+            onFeatureClickRef.current(feature);
+          } catch (error) {
+            console.error('Error loading asset:', error);
+          }
+          return;
+        }
+
         const graphicHit = response.results.find(
           (result) => result.layer === graphicsLayer
         );
@@ -348,6 +649,9 @@ export function MapDashboard({ data, onFeatureClick, visibleLayers, editFeature,
             };
             onFeatureClickRef.current(feature);
           }
+        } else if (!tileHit) {
+          // Clicking empty map clears the nearest-vehicle highlights
+          highlightLayer.removeAll();
         }
       });
     });
@@ -373,15 +677,38 @@ export function MapDashboard({ data, onFeatureClick, visibleLayers, editFeature,
     });
 
     return () => {
+      extentWatch.remove();
       if (view) {
         view.destroy();
       }
     };
   }, []); // Run once
 
+  // Tiles mode: reload the tiles after real-time changes
+  useEffect(() => {
+    const tileLayer = tileLayerRef.current;
+    if (!tileLayer) return;
+
+    const timeout = setTimeout(() => tileLayer.refresh(), TILE_REFRESH_DELAY);
+    return () => clearTimeout(timeout);
+  }, [data]);
+
+  // Tiles mode: show the style layers of the visible asset types
+  useEffect(() => {
+    const tileLayer = tileLayerRef.current;
+    if (!tileLayer) return;
+
+    tileLayer.when(() => {
+      TILE_LAYER_TYPES.forEach((type) => {
+        const visibility = !visibleLayers || visibleLayers.has(type) ? 'visible' : 'none';
+        tileStyleLayerIds(type).forEach((id) => tileLayer.setStyleLayerVisibility(id, visibility));
+      });
+    });
+  }, [visibleLayers]);
+
   // Update Data
   useEffect(() => {
-    if (!graphicsLayerRef.current) return;
+    if (!graphicsLayerRef.current || tileLayerRef.current) return;
 
     const layer = graphicsLayerRef.current;
     layer.removeAll();
@@ -426,13 +753,197 @@ export function MapDashboard({ data, onFeatureClick, visibleLayers, editFeature,
     } catch (error) {
       console.error('Error creating asset:', error);
       (await getToaster()).show({
-        message: 'Failed to create feature',
+        message: errorMessage(error, 'Failed to create feature'),
         intent: Intent.DANGER,
         icon: 'error',
       });
     }
   };
 
+  // Find the vehicles nearest to a point and highlight them
+  const handleFindNearest = async (lng: number, lat: number) => {
+    const layer = highlightLayerRef.current;
+    if (!layer) return;
+
+    try {
+      const result = await fetchNearestAssets({ lon: lng, lat, k: NEAREST_COUNT, type: 'vehicle' });
+      layer.removeAll();
+
+      if (result.features.length === 0) {
+        (await getToaster()).show({ message: 'No vehicles found', intent: Intent.WARNING });
+        return;
+      }
+
+      const origin = new Graphic({
+        geometry: new Point({ longitude: lng, latitude: lat }),
+        symbol: new SimpleMarkerSymbol({
+          style: "cross",
+          size: 14,
+          outline: { color: HIGHLIGHT_COLOR, width: 2 }
+        })
+      });
+
+      const highlights = result.features
+        .map(highlightGraphic)
+        .filter((g): g is Graphic => g !== null);
+
+      // Distance label next to each result
+      const labels = highlights.map((graphic) => new Graphic({
+        geometry: graphic.geometry,
+        symbol: new TextSymbol({
+          text: formatDistance(graphic.attributes.distance_meters),
+          color: HIGHLIGHT_COLOR,
+          haloColor: [0, 0, 0],
+          haloSize: 1,
+          yoffset: 16,
+          font: { size: 10, weight: "bold" }
+        })
+      }));
+
+      layer.addMany([origin, ...highlights, ...labels]);
+      viewRef.current?.goTo([origin, ...highlights]).catch(() => undefined);
+
+      const [nearest] = result.features;
+      (await getToaster()).show({
+        message: `Nearest vehicle: ${nearest.properties.name} (${formatDistance(nearest.properties.distance_meters)})`,
+        intent: Intent.PRIMARY,
+        icon: 'drive-time',
+      });
+    } catch (error) {
+      console.error('Error finding nearest vehicles:', error);
+      (await getToaster()).show({
+        message: errorMessage(error, 'Failed to find nearest vehicles'),
+        intent: Intent.DANGER,
+        icon: 'error',
+      });
+    }
+  };
+
+  // Search the assets against the drawn shape and highlight the results
+  const runSearch = async (
+    geometry: GeoJSONGeometry,
+    predicate: SpatialPredicate = search.predicate,
+    distance: number = search.distance
+  ) => {
+    setSearch((prev) => ({ ...prev, geometry, loading: true, error: null }));
+
+    try {
+      const result = await searchAssets({
+        geometry,
+        predicate,
+        distance: predicate === 'dwithin' ? distance : undefined,
+      });
+
+      const layer = searchLayerRef.current;
+      if (layer) {
+        layer.removeAll();
+        if (searchShapeRef.current) layer.add(searchShapeRef.current);
+        layer.addMany(
+          result.features
+            .map(highlightGraphic)
+            .filter((g): g is Graphic => g !== null)
+        );
+      }
+
+      setSearch((prev) => ({ ...prev, results: result.features, loading: false }));
+    } catch (error) {
+      console.error('Error searching assets:', error);
+      setSearch((prev) => ({ ...prev, loading: false, error: errorMessage(error, 'Failed to search assets') }));
+    }
+  };
+
+  useEffect(() => {
+    runSearchRef.current = (geometry) => runSearch(geometry);
+  });
+
+  const handleSearchDraw = (tool: SearchTool) => {
+    if (!sketchVMRef.current) return;
+    sketchPurposeRef.current = 'search';
+    sketchVMRef.current.create(tool);
+  };
+
+  const handleSearchClear = () => {
+    sketchVMRef.current?.cancel();
+    searchLayerRef.current?.removeAll();
+    searchShapeRef.current = null;
+    setSearch((prev) => ({ ...prev, geometry: null, results: null, loading: false, error: null }));
+  };
+
+  const handleSearchPredicateChange = (predicate: SpatialPredicate) => {
+    setSearch((prev) => ({ ...prev, predicate }));
+    if (search.geometry) runSearch(search.geometry, predicate);
+  };
+
+  const handleSearchDistanceChange = (distance: number) => {
+    setSearch((prev) => ({ ...prev, distance }));
+    if (search.geometry) runSearch(search.geometry, search.predicate, distance);
+  };
+
+  // Draw a vehicle's breadcrumb trail with the playback marker at its start
+  const drawTrack = (track: AssetTrack) => {
+    const layer = trackLayerRef.current;
+    if (!layer) return;
+
+    layer.removeAll();
+    trackPlaybackRef.current = null;
+
+    const { coordinates } = track.geometry;
+    if (coordinates.length === 0) return;
+
+    const trail = new Graphic({
+      geometry: new Polyline({ paths: [coordinates] }),
+      symbol: new SimpleLineSymbol({ color: [...TRACK_COLOR, 0.4], width: 2, style: "short-dash" })
+    });
+
+    const breadcrumbs = coordinates.length <= TRACK_MAX_BREADCRUMBS
+      ? coordinates.map(([longitude, latitude]) => new Graphic({
+          geometry: new Point({ longitude, latitude }),
+          symbol: new SimpleMarkerSymbol({
+            color: [...TRACK_COLOR, 0.6],
+            size: 4,
+            outline: { color: [0, 0, 0, 0], width: 0 }
+          })
+        }))
+      : [];
+
+    const travelled = new Graphic({
+      geometry: new Polyline({ paths: [[coordinates[0]]] }),
+      symbol: new SimpleLineSymbol({ color: TRACK_COLOR, width: 3 })
+    });
+
+    const marker = new Graphic({
+      geometry: new Point({ longitude: coordinates[0][0], latitude: coordinates[0][1] }),
+      symbol: new SimpleMarkerSymbol({
+        color: TRACK_COLOR,
+        size: 12,
+        outline: { color: [255, 255, 255], width: 2 }
+      })
+    });
+
+    layer.addMany([trail, ...breadcrumbs, travelled, marker]);
+    trackPlaybackRef.current = { travelled, marker };
+    viewRef.current?.goTo(trail).catch(() => undefined);
+  };
+
+  // Move the playback marker to where the vehicle was at the given time
+  const showTrackTime = (track: AssetTrack, time: number) => {
+    const playback = trackPlaybackRef.current;
+    const position = trackPositionAt(track, time);
+    if (!playback || !position) return;
+
+    const [longitude, latitude] = position.coordinates;
+    const path = [...track.geometry.coordinates.slice(0, position.index + 1), position.coordinates];
+
+    playback.travelled.geometry = new Polyline({ paths: [path] });
+    playback.marker.geometry = new Point({ longitude, latitude });
+  };
+
+  const handleTrackClose = () => {
+    trackLayerRef.current?.removeAll();
+    trackPlaybackRef.current = null;
+    onTrackClose?.();
+  };
+
   // Actions
   const handleCreatePoint = (lng: number, lat: number) => {
       setPrecisionInputModal({
@@ -484,6 +995,9 @@ export function MapDashboard({ data, onFeatureClick, visibleLayers, editFeature,
                 });
              });
           }}
+          onFindNearest={handleFindNearest}
+          onSearchArea={() => setSearch((prev) => ({ ...prev, isOpen: true }))}
+          can={can}
           onClose={() => setContextMenu(prev => ({ ...prev, isOpen: false }))}
         />
       )}
@@ -497,22 +1011,63 @@ export function MapDashboard({ data, onFeatureClick, visibleLayers, editFeature,
         initialLatitude={precisionInputModal.latitude}
         mode={precisionInputModal.mode}
         initialGeometry={precisionInputModal.initialGeometry}
+        types={ASSET_TYPES.filter((type) => can('assets:create', type))}
       />
 
       <EditFeaturePanel
         feature={editFeature || null}
         isOpen={!!editFeature}
         onClose={() => { if (onEditComplete) onEditComplete(); }}
-        onSave={async (id, data) => {
-            await updateAsset(id, data);
+        onSave={async (id, data, version) => {
+            await updateAsset(id, data, version);
             (await getToaster()).show({ message: "Updated", intent: Intent.SUCCESS });
         }}
         onDelete={async (id) => {
-            await deleteAsset(id);
-            (await getToaster()).show({ message: "Deleted", intent: Intent.SUCCESS });
+            try {
+              await deleteAsset(id);
+              (await getToaster()).show({ message: "Deleted", intent: Intent.SUCCESS });
+            } catch (error) {
+              console.error('Error deleting asset:', error);
+              (await getToaster()).show({
+                message: errorMessage(error, 'Failed to delete feature'),
+                intent: Intent.DANGER,
+                icon: 'error',
+              });
+            }
         }}
+        can={can}
       />
 
+      {search.isOpen && (
+        <SpatialSearchPanel
+          predicate={search.predicate}
+          distance={search.distance}
+          hasShape={search.geometry !== null}
+          results={search.results}
+          loading={search.loading}
+          error={search.error}
+          onPredicateChange={handleSearchPredicateChange}
+          onDistanceChange={handleSearchDistanceChange}
+          onDraw={handleSearchDraw}
+          onSelect={(feature) => onFeatureClickRef.current?.(feature)}
+          onClear={handleSearchClear}
+          onClose={() => {
+            handleSearchClear();
+            setSearch((prev) => ({ ...prev, isOpen: false }));
+          }}
+        />
+      )}
+
+      {trackAsset && (
+        <TrackPlayback
+          key={trackAsset.id}
+          asset={trackAsset}
+          onLoad={drawTrack}
+          onTimeChange={showTrackTime}
+          onClose={handleTrackClose}
+        />
+      )}
+
       {/* Feature count badge */}
       <div
         style={{
@@ -527,7 +1082,7 @@ export function MapDashboard({ data, onFeatureClick, visibleLayers, editFeature,
           fontWeight: 'bold',
         }}
       >
-        {data.features.length} assets
+        {ASSET_RENDERER === 'tiles' ? 'Vector tiles' : `${data.features.length} assets`}
       </div>
     </div>
   );
@@ -26,8 +26,18 @@ interface PrecisionInputModalProps {
   initialLatitude?: number;
   mode: 'point' | 'polygon' | 'rectangle' | 'circle' | 'line';
   initialGeometry?: GeoJSON.Geometry;
+  // Asset types the user may create (every type by default)
+  types?: AssetType[];
 }
 
+const TYPE_OPTIONS: { value: AssetType; label: string }[] = [
+  { value: 'poi', label: 'Point of Interest' },
+  { value: 'zone', label: 'Zone' },
+  { value: 'incident', label: 'Incident' },
+  { value: 'vehicle', label: 'Vehicle' },
+  { value: 'route', label: 'Route' },
+];
+
 /**
  * Modal for precision input of geospatial features
  */
@@ -39,9 +49,11 @@ export function PrecisionInputModal({
   initialLatitude = 0,
   mode,
   initialGeometry,
+  types,
 }: PrecisionInputModalProps) {
+  const allowed = (value: AssetType) => !types || types.includes(value);
   const [name, setName] = useState('');
-  const [type, setType] = useState<AssetType>('poi');
+  const [type, setType] = useState<AssetType>(() => (allowed('poi') ? 'poi' : (types?.[0] ?? 'poi')));
   const [status, setStatus] = useState<AssetStatus>('active');
   const [latitude, setLatitude] = useState(initialLatitude.toFixed(6));
   const [longitude, setLongitude] = useState(initialLongitude.toFixed(6));
@@ -78,8 +90,8 @@ export function PrecisionInputModal({
         setCoordinates(coordsText);
 
         // Set type to zone if polygon/line
-        if (mode === 'polygon') setType('zone');
-        if (mode === 'line') setType('route');
+        if (mode === 'polygon' && allowed('zone')) setType('zone');
+        if (mode === 'line' && allowed('route')) setType('route');
       }
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -311,11 +323,11 @@ export function PrecisionInputModal({
             onChange={(e) => setType(e.target.value as AssetType)}
             fill
           >
-            <option value="poi">Point of Interest</option>
-            <option value="zone">Zone</option>
-            <option value="incident">Incident</option>
-            <option value="vehicle">Vehicle</option>
-            <option value="route">Route</option>
+            {TYPE_OPTIONS.filter((option) => allowed(option.value)).map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
           </HTMLSelect>
         </FormGroup>
 
@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { Button, Callout, Dialog, FormGroup, InputGroup, Intent } from '@blueprintjs/core';
+import { IconNames } from '@blueprintjs/icons';
+
+interface SignInDialogProps {
+  isOpen: boolean;
+  // Why the server refused the current credentials, if it said
+  reason?: string;
+  onSignIn: (token: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Asks for an access token when the server answers 401
+ * Accepts a bearer token issued for the user or an API key.
+ */
+export function SignInDialog({ isOpen, reason, onSignIn, onClose }: SignInDialogProps) {
+  const [token, setToken] = useState('');
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (token.trim()) onSignIn(token.trim());
+  };
+
+  return (
+    <Dialog
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Sign In"
+      icon={IconNames.LOG_IN}
+      style={{ width: '440px', paddingBottom: 0 }}
+    >
+      <form onSubmit={handleSubmit}>
+        <div className="bp5-dialog-body">
+          <Callout intent={Intent.WARNING} style={{ marginBottom: '12px' }}>
+            {reason && reason !== 'Authentication required'
+              ? `Your access token was refused: ${reason}.`
+              : 'The server requires an access token.'}
+          </Callout>
+
+          <FormGroup label="Access token" labelFor="access-token" helperText="Stored in this browser only">
+            <InputGroup
+              id="access-token"
+              type="password"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              placeholder="eyJhbGciOiJIUzI1NiJ9..."
+              autoFocus
+            />
+          </FormGroup>
+        </div>
+
+        <div className="bp5-dialog-footer">
+          <div className="bp5-dialog-footer-actions">
+            <Button onClick={onClose}>Cancel</Button>
+            <Button type="submit" intent={Intent.PRIMARY} icon={IconNames.LOG_IN} disabled={!token.trim()}>
+              Sign In
+            </Button>
+          </div>
+        </div>
+      </form>
+    </Dialog>
+  );
+}
@@ -0,0 +1,152 @@
+import {
+  Button,
+  ButtonGroup,
+  Callout,
+  Card,
+  FormGroup,
+  H5,
+  HTMLSelect,
+  Menu,
+  MenuItem,
+  NumericInput,
+  Spinner,
+  Tag,
+  Tooltip,
+} from '@blueprintjs/core';
+import { IconNames, type IconName } from '@blueprintjs/icons';
+import type { GeoJSONFeature, SpatialPredicate } from '../types';
+
+export type SearchTool = 'polygon' | 'rectangle' | 'circle' | 'polyline' | 'point';
+
+interface SpatialSearchPanelProps {
+  predicate: SpatialPredicate;
+  distance: number;
+  hasShape: boolean;
+  results: GeoJSONFeature[] | null;
+  loading: boolean;
+  error: string | null;
+  onPredicateChange: (predicate: SpatialPredicate) => void;
+  onDistanceChange: (distance: number) => void;
+  onDraw: (tool: SearchTool) => void;
+  onSelect: (feature: GeoJSONFeature) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const tools: { tool: SearchTool; icon: IconName; label: string }[] = [
+  { tool: 'polygon', icon: IconNames.POLYGON_FILTER, label: 'Draw Polygon' },
+  { tool: 'rectangle', icon: IconNames.WIDGET, label: 'Draw Rectangle' },
+  { tool: 'circle', icon: IconNames.FULL_CIRCLE, label: 'Draw Circle' },
+  { tool: 'polyline', icon: IconNames.ROUTE, label: 'Draw Line' },
+  { tool: 'point', icon: IconNames.MAP_MARKER, label: 'Pick Point' },
+];
+
+/**
+ * Panel for searching assets against a shape drawn on the map
+ */
+export function SpatialSearchPanel({
+  predicate,
+  distance,
+  hasShape,
+  results,
+  loading,
+  error,
+  onPredicateChange,
+  onDistanceChange,
+  onDraw,
+  onSelect,
+  onClear,
+  onClose,
+}: SpatialSearchPanelProps) {
+  return (
+    <Card
+      style={{
+        position: 'absolute',
+        top: '50px',
+        right: '10px',
+        width: '300px',
+        maxHeight: 'calc(100% - 70px)',
+        overflowY: 'auto',
+        zIndex: 1000,
+        backgroundColor: 'rgba(16, 22, 26, 0.9)',
+        color: '#ffffff',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
+        <H5 style={{ margin: 0, color: '#ffffff' }}>Spatial Search</H5>
+        <Button icon={IconNames.CROSS} minimal small onClick={onClose} />
+      </div>
+
+      <FormGroup label="Assets that" labelFor="search-predicate-select">
+        <HTMLSelect
+          id="search-predicate-select"
+          value={predicate}
+          onChange={(e) => onPredicateChange(e.target.value as SpatialPredicate)}
+          fill
+        >
+          <option value="intersects">Touch the shape</option>
+          <option value="within">Lie within the shape</option>
+          <option value="contains">Contain the shape</option>
+          <option value="dwithin">Are within a distance of the shape</option>
+        </HTMLSelect>
+      </FormGroup>
+
+      {predicate === 'dwithin' && (
+        <FormGroup label="Distance (metres)" labelFor="search-distance-input">
+          <NumericInput
+            id="search-distance-input"
+            value={distance}
+            min={0}
+            stepSize={100}
+            majorStepSize={1000}
+            onValueChange={(value) => onDistanceChange(Number.isNaN(value) ? 0 : value)}
+            fill
+          />
+        </FormGroup>
+      )}
+
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <ButtonGroup minimal>
+          {tools.map(({ tool, icon, label }) => (
+            <Tooltip key={tool} content={label} position="bottom">
+              <Button icon={icon} onClick={() => onDraw(tool)} />
+            </Tooltip>
+          ))}
+        </ButtonGroup>
+        <Button icon={IconNames.ERASER} minimal small disabled={!hasShape} onClick={onClear}>
+          Clear
+        </Button>
+      </div>
+
+      <div style={{ marginTop: '12px' }}>
+        {error && <Callout intent="danger">{error}</Callout>}
+
+        {loading && <Spinner size={20} />}
+
+        {!loading && !error && !hasShape && (
+          <div style={{ fontSize: '12px', opacity: 0.7 }}>Draw a shape on the map to search.</div>
+        )}
+
+        {!loading && !error && results && (
+          <>
+            <div style={{ fontSize: '12px', marginBottom: '6px' }}>
+              {results.length} {results.length === 1 ? 'asset' : 'assets'} found
+            </div>
+            {results.length > 0 && (
+              <Menu style={{ backgroundColor: 'transparent', padding: 0 }}>
+                {results.map((feature) => (
+                  <MenuItem
+                    key={feature.id}
+                    text={feature.properties.name}
+                    labelElement={<Tag minimal>{feature.properties.type}</Tag>}
+                    onClick={() => onSelect(feature)}
+                  />
+                ))}
+              </Menu>
+            )}
+          </>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react';
+import { Button, Callout, Card, H5, HTMLSelect, Slider, Spinner } from '@blueprintjs/core';
+import { IconNames } from '@blueprintjs/icons';
+import { fetchAssetTrack } from '../utils/api';
+import { trackPositionAt, trackTimeRange } from '../utils/track';
+import type { AssetTrack, GeoJSONFeature } from '../types';
+
+interface TrackPlaybackProps {
+  asset: GeoJSONFeature;
+  onLoad: (track: AssetTrack) => void;
+  onTimeChange: (track: AssetTrack, time: number) => void;
+  onClose: () => void;
+}
+
+const WINDOWS = [
+  { hours: 1, label: 'Last hour' },
+  { hours: 6, label: 'Last 6 hours' },
+  { hours: 24, label: 'Last 24 hours' },
+  { hours: 24 * 7, label: 'Last 7 days' },
+];
+
+// Playback speeds as multiples of real time
+const RATES = [10, 60, 300, 1800];
+
+const TICK_MS = 100;
+
+const formatValue = (value: number | null | undefined, unit = '') =>
+  value === null || value === undefined ? '—' : `${Math.round(value)}${unit}`;
+
+/**
+ * Breadcrumb trail playback of a vehicle's recorded positions
+ * The map draws the track; this panel loads it and drives the playback time.
+ */
+export function TrackPlayback({ asset, onLoad, onTimeChange, onClose }: TrackPlaybackProps) {
+  const [hours, setHours] = useState(24);
+  const [track, setTrack] = useState<AssetTrack | null>(null);
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [rate, setRate] = useState(60);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const range = track ? trackTimeRange(track) : null;
+  const end = range?.end;
+  const atEnd = end === undefined || time >= end;
+  const running = playing && !atEnd;
+
+  // Load the track whenever the time window changes
+  useEffect(() => {
+    let cancelled = false;
+    const to = new Date();
+    const from = new Date(to.getTime() - hours * 60 * 60 * 1000);
+
+    fetchAssetTrack(asset.id, { from: from.toISOString(), to: to.toISOString() })
+      .then((result) => {
+        if (cancelled) return;
+        const loaded = trackTimeRange(result);
+        setTrack(result);
+        setTime(loaded ? loaded.start : 0);
+        setError(null);
+        onLoad(result);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Error loading track:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load track');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [asset.id, hours]);
+
+  // Move the vehicle marker along the trail
+  useEffect(() => {
+    if (track) onTimeChange(track, time);
+  }, [track, time, onTimeChange]);
+
+  // Advance the playback time
+  useEffect(() => {
+    if (!running || end === undefined) return;
+
+    const timer = setInterval(() => {
+      setTime((prev) => Math.min(prev + TICK_MS * rate, end));
+    }, TICK_MS);
+
+    return () => clearInterval(timer);
+  }, [running, rate, end]);
+
+  const handlePlay = () => {
+    if (running) {
+      setPlaying(false);
+      return;
+    }
+    if (range && atEnd) setTime(range.start);
+    setPlaying(true);
+  };
+
+  const handleWindowChange = (value: number) => {
+    setPlaying(false);
+    setLoading(true);
+    setHours(value);
+  };
+
+  const position = track ? trackPositionAt(track, time) : null;
+  const speed = position && track ? track.properties.speeds[position.index] : null;
+  const heading = position && track ? track.properties.headings[position.index] : null;
+
+  return (
+    <Card
+      style={{
+        position: 'absolute',
+        bottom: '30px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        width: '440px',
+        zIndex: 1000,
+        backgroundColor: 'rgba(16, 22, 26, 0.9)',
+        color: '#ffffff',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
+        <H5 style={{ margin: 0, color: '#ffffff' }}>Track: {asset.properties.name}</H5>
+        <Button icon={IconNames.CROSS} minimal small onClick={onClose} />
+      </div>
+
+      <div style={{ display: 'flex', gap: '8px', marginBottom: '12px' }}>
+        <HTMLSelect value={hours} onChange={(e) => handleWindowChange(Number(e.target.value))}>
+          {WINDOWS.map((w) => (
+            <option key={w.hours} value={w.hours}>
+              {w.label}
+            </option>
+          ))}
+        </HTMLSelect>
+        <HTMLSelect value={rate} onChange={(e) => setRate(Number(e.target.value))}>
+          {RATES.map((r) => (
+            <option key={r} value={r}>
+              {r}× speed
+            </option>
+          ))}
+        </HTMLSelect>
+      </div>
+
+      {error && <Callout intent="danger">{error}</Callout>}
+
+      {loading && <Spinner size={20} />}
+
+      {!loading && !error && track && !range && (
+        <div style={{ fontSize: '12px', opacity: 0.7 }}>No positions recorded in this time window.</div>
+      )}
+
+      {!loading && !error && track && range && (
+        <>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+            <Button
+              icon={running ? IconNames.PAUSE : IconNames.PLAY}
+              minimal
+              disabled={range.end === range.start}
+              onClick={handlePlay}
+            />
+            <div style={{ flex: 1, padding: '0 8px' }}>
+              <Slider
+                min={range.start}
+                max={Math.max(range.end, range.start + 1)}
+                stepSize={1000}
+                value={Math.min(Math.max(time, range.start), range.end)}
+                labelRenderer={false}
+                disabled={range.end === range.start}
+                onChange={setTime}
+              />
+            </div>
+          </div>
+
+          <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', marginTop: '8px' }}>
+            <span>{new Date(time).toLocaleString()}</span>
+            <span>
+              Speed {formatValue(speed)} · Heading {formatValue(heading, '°')}
+            </span>
+            <span>{track.properties.count} positions</span>
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
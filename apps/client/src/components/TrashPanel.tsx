@@ -0,0 +1,183 @@
+import { useEffect, useState } from 'react';
+import {
+  Drawer,
+  Classes,
+  Button,
+  Callout,
+  Card,
+  FormGroup,
+  HTMLSelect,
+  Intent,
+  NonIdealState,
+  Spinner,
+  Tag,
+} from '@blueprintjs/core';
+import { IconNames } from '@blueprintjs/icons';
+import { errorMessage, fetchDeletedAssets, restoreAsset } from '../utils/api';
+import type { AssetType, DeletedAsset, PermissionCheck } from '../types';
+
+interface TrashPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Restoring needs the permission to delete assets of the type
+  can?: PermissionCheck;
+}
+
+interface TrashListProps {
+  type?: AssetType;
+  can?: PermissionCheck;
+}
+
+const PAGE_SIZE = 50;
+
+/**
+ * Paginated list of deleted assets with restore actions
+ */
+function TrashList({ type, can }: TrashListProps) {
+  const [assets, setAssets] = useState<DeletedAsset[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the first page
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchDeletedAssets({ type, limit: PAGE_SIZE })
+      .then((page) => {
+        if (cancelled) return;
+        setAssets(page.assets);
+        setTotal(page.total);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Error loading deleted assets:', err);
+        setError(errorMessage(err, 'Failed to load deleted assets'));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [type]);
+
+  const handleLoadMore = async () => {
+    try {
+      setLoading(true);
+      const page = await fetchDeletedAssets({ type, limit: PAGE_SIZE, offset: assets.length });
+      setAssets((prev) => [...prev, ...page.assets]);
+      setTotal(page.total);
+    } catch (err) {
+      console.error('Error loading deleted assets:', err);
+      setError(errorMessage(err, 'Failed to load deleted assets'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async (asset: DeletedAsset) => {
+    try {
+      setRestoringId(asset.id);
+      setError(null);
+      await restoreAsset(asset.id);
+      // The map picks the asset up again from the asset_create broadcast
+      setAssets((prev) => prev.filter((a) => a.id !== asset.id));
+      setTotal((prev) => prev - 1);
+    } catch (err) {
+      console.error('Error restoring asset:', err);
+      setError(errorMessage(err, `Failed to restore ${asset.name}`));
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+      {error && <Callout intent="danger">{error}</Callout>}
+
+      {!loading && assets.length === 0 && (
+        <NonIdealState icon={IconNames.TRASH} title="Trash is empty" />
+      )}
+
+      {assets.map((asset) => (
+        <Card key={asset.id} compact>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '8px' }}>
+            <div>
+              <strong>{asset.name}</strong>
+              <div style={{ display: 'flex', gap: '6px', alignItems: 'center', marginTop: '4px' }}>
+                <Tag minimal>{asset.type}</Tag>
+                <span style={{ fontSize: '12px' }}>
+                  Deleted {new Date(asset.deletedAt).toLocaleString()}
+                </span>
+              </div>
+            </div>
+            {(!can || can('assets:delete', asset.type)) && (
+              <Button
+                icon={IconNames.UNDO}
+                intent={Intent.PRIMARY}
+                small
+                loading={restoringId === asset.id}
+                disabled={restoringId !== null && restoringId !== asset.id}
+                onClick={() => handleRestore(asset)}
+              >
+                Restore
+              </Button>
+            )}
+          </div>
+        </Card>
+      ))}
+
+      {loading && <Spinner size={20} />}
+
+      {!loading && assets.length < total && (
+        <Button icon={IconNames.MORE} minimal fill onClick={handleLoadMore}>
+          Load more
+        </Button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Drawer listing soft-deleted assets that can still be restored
+ */
+export function TrashPanel({ isOpen, onClose, can }: TrashPanelProps) {
+  const [typeFilter, setTypeFilter] = useState<AssetType | ''>('');
+
+  return (
+    <Drawer
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Trash"
+      icon={IconNames.TRASH}
+      size="400px"
+      canOutsideClickClose={true}
+      canEscapeKeyClose={true}
+    >
+      <div className={Classes.DRAWER_BODY}>
+        <div className={Classes.DIALOG_BODY}>
+          <FormGroup label="Type" labelFor="trash-type-select">
+            <HTMLSelect
+              id="trash-type-select"
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value as AssetType | '')}
+              fill
+            >
+              <option value="">All types</option>
+              <option value="poi">Point of Interest</option>
+              <option value="zone">Zone</option>
+              <option value="incident">Incident</option>
+              <option value="vehicle">Vehicle</option>
+              <option value="route">Route</option>
+            </HTMLSelect>
+          </FormGroup>
+
+          <TrashList key={typeFilter} type={typeFilter || undefined} can={can} />
+        </div>
+      </div>
+    </Drawer>
+  );
+}
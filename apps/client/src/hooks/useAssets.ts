@@ -1,33 +1,61 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { fetchAssets } from '../utils/api';
+import { applyAssetPatch, type AssetPatch } from '../utils/patch';
 import { useWebSocket } from './useWebSocket';
-import type { GeoJSONFeatureCollection, GeoJSONFeature, WSMessage } from '../types';
+import type { AssetSubscription, GeoJSONFeatureCollection, GeoJSONFeature, WSMessage } from '../types';
+
+interface UseAssetsOptions {
+  /**
+   * Download the full FeatureCollection (default true). When false - the map
+   * renders vector tiles - data only collects the real-time changes.
+   */
+  loadAll?: boolean;
+  /**
+   * Only receive the changes of these assets (default every change). With
+   * loadAll, the assets inside subscription.bbox are downloaded again when it
+   * changes, since changes outside the previous area were not received.
+   */
+  subscription?: AssetSubscription;
+}
 
 /**
  * Custom hook for managing assets data with real-time updates
  */
-export function useAssets() {
+export function useAssets({ loadAll = true, subscription }: UseAssetsOptions = {}) {
   const [data, setData] = useState<GeoJSONFeatureCollection>({
     type: 'FeatureCollection',
     features: [],
   });
-  const [loading, setLoading] = useState(true);
+  const [loading, setLoading] = useState(loadAll);
   const [error, setError] = useState<Error | null>(null);
+  // Only the latest download may replace the data
+  const requestRef = useRef(0);
+
+  const bbox = loadAll ? subscription?.bbox?.join(',') : undefined;
 
   // Load initial data
   const loadAssets = useCallback(async () => {
+    if (!loadAll) {
+      // Nothing to download; a new collection makes the tiles reload
+      setData({ type: 'FeatureCollection', features: [] });
+      return;
+    }
+
+    const request = ++requestRef.current;
+
     try {
       setLoading(true);
       setError(null);
-      const assets = await fetchAssets();
-      setData(assets);
+      const assets = await fetchAssets(bbox ? { bbox } : undefined);
+      if (request === requestRef.current) setData(assets);
     } catch (err) {
+      if (request !== requestRef.current) return;
       setError(err instanceof Error ? err : new Error('Failed to load assets'));
       console.error('Error loading assets:', err);
     } finally {
-      setLoading(false);
+      if (request === requestRef.current) setLoading(false);
     }
-  }, []);
+  }, [loadAll, bbox]);
 
   // Handle real-time updates from WebSocket
   const handleWebSocketMessage = useCallback((message: WSMessage) => {
@@ -73,22 +101,35 @@ export function useAssets() {
           };
         }
       });
-    } else if (message.type === 'asset_delete' && message.data?.id) {
+    } else if (message.type === 'asset_patch' && message.data) {
+      const assetPatch: AssetPatch = message.data;
+
+      // Only sent for assets the client already has
+      setData((prevData) => ({
+        type: 'FeatureCollection',
+        features: prevData.features.map((f) => (f.id === assetPatch.id ? applyAssetPatch(f, assetPatch) : f)),
+      }));
+    } else if (message.type === 'reload_required') {
+      // Changes were missed and cannot be replayed
+      loadAssets();
+    } else if ((message.type === 'asset_delete' || message.type === 'asset_exit') && message.data?.id) {
+      // Deleted, or no longer matches the subscription
       setData((prevData) => ({
         type: 'FeatureCollection',
         features: prevData.features.filter((f) => f.id !== message.data.id),
       }));
     }
-  }, []);
+  }, [loadAssets]);
 
   // Set up WebSocket connection
   useWebSocket({
+    subscription,
     onMessage: handleWebSocketMessage,
     onOpen: () => console.log('📡 Real-time updates connected'),
     onError: (error) => console.error('WebSocket error:', error),
   });
 
-  // Load initial data on mount
+  // Load initial data on mount, and again when the subscribed area changes
   useEffect(() => {
     loadAssets();
   }, [loadAssets]);
@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from 'react';
+import { fetchCurrentUser } from '../utils/api';
+import type { CurrentUser, PermissionCheck } from '../types';
+
+/**
+ * The signed-in user and a check of their permissions
+ * Nothing is allowed until GET /api/me answered, so actions appear once
+ * they are known to be permitted. The server enforces them either way.
+ */
+export function usePermissions() {
+  const [user, setUser] = useState<CurrentUser | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchCurrentUser()
+      .then((current) => {
+        if (!cancelled) setUser(current);
+      })
+      .catch((err) => console.error('Error loading permissions:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const can = useCallback<PermissionCheck>(
+    (action, type) => {
+      const types = user?.permissions[action] ?? [];
+      return type ? types.includes(type) : types.length > 0;
+    },
+    [user]
+  );
+
+  return { user, can };
+}
@@ -1,8 +1,13 @@
-import { useEffect, useCallback, useMemo, useState } from 'react';
+import { useEffect, useCallback, useMemo, useRef, useState } from 'react';
 import useReactWebSocket, { ReadyState } from 'react-use-websocket';
-import type { WSMessage } from '../types';
+import type { AssetSubscription, WSMessage } from '../types';
+import { requireAuthentication, withAccessToken } from '../utils/auth';
 
 interface UseWebSocketOptions {
+  /**
+   * Asset changes to receive; every change when omitted
+   */
+  subscription?: AssetSubscription;
   onMessage?: (message: WSMessage) => void;
   onOpen?: () => void;
   onClose?: () => void;
@@ -21,9 +26,12 @@ type ConnectionState = 'connecting' | 'connected' | 'disconnected' | 'error';
  * - Connection state management
  * - Heartbeat/ping mechanism
  * - Improved error handling
+ * - Asset change subscription, sent again after reconnecting
+ * - Replay of the asset changes missed while disconnected
  */
 export function useWebSocket(options: UseWebSocketOptions = {}) {
   const {
+    subscription,
     onMessage,
     onOpen,
     onClose,
@@ -35,6 +43,13 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
 
   const [connectionState, setConnectionState] = useState<ConnectionState>('disconnected');
   const [shouldConnect, setShouldConnect] = useState(true);
+  const onMessageRef = useRef(onMessage);
+  // Sequence number of the last change received, resumed from after a reconnect
+  const lastSeqRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    onMessageRef.current = onMessage;
+  }, [onMessage]);
 
   /**
    * Resolve the correct WebSocket URL for the current environment
@@ -72,7 +87,11 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     return `${protocol}//${normalizedHost}${path}`;
   }, []);
 
-  const socketUrl = useMemo(() => getWebSocketUrl(), [getWebSocketUrl]);
+  /**
+   * The upgrade cannot send headers, so the URL carries the access token;
+   * read on every (re)connect to pick up a new token
+   */
+  const socketUrl = useCallback(async () => withAccessToken(getWebSocketUrl()), [getWebSocketUrl]);
 
   const reconnectInterval = useCallback(
     (attempt: number) => Math.min(1000 * Math.pow(2, attempt), maxReconnectDelay),
@@ -94,9 +113,58 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     };
   }, [heartbeatInterval]);
 
+  /**
+   * Parse incoming messages and hand them to the provided callback
+   */
+  const handleMessage = (event: MessageEvent) => {
+    if (typeof event.data !== 'string') return;
+
+    try {
+      const parsed: WSMessage = JSON.parse(event.data);
+
+      // A reload starts over from the number it covers, which is lower than
+      // the last one received if the server's change log was reset
+      if (parsed.type === 'reload_required' && typeof parsed.seq === 'number') {
+        lastSeqRef.current = parsed.seq;
+      } else if (typeof parsed.seq === 'number') {
+        lastSeqRef.current = Math.max(lastSeqRef.current ?? 0, parsed.seq);
+      }
+
+      if (parsed.type === 'pong' || parsed.type === 'connected') {
+        console.log('💓 Heartbeat received:', parsed.type);
+        if (parsed.type === 'connected') {
+          setConnectionState('connected');
+        }
+        return;
+      }
+
+      if (parsed.type === 'subscribed') {
+        console.log('📡 Subscription updated:', parsed.data);
+        return;
+      }
+
+      if (parsed.type === 'resumed') {
+        console.log(`📡 Replayed ${parsed.data?.replayed ?? 0} missed change(s)`);
+        return;
+      }
+
+      if (parsed.type === 'reload_required') {
+        console.warn('⚠️  Missed changes cannot be replayed:', parsed.data?.reason);
+      }
+
+      if (parsed.type === 'error') {
+        console.error('❌ WebSocket server error:', parsed.data);
+        return;
+      }
+
+      onMessageRef.current?.(parsed);
+    } catch (error) {
+      console.error('❌ Error parsing WebSocket message:', error);
+    }
+  };
+
   const {
     sendJsonMessage,
-    lastMessage,
     readyState,
     getWebSocket,
   } = useReactWebSocket(socketUrl, {
@@ -106,6 +174,8 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     reconnectAttempts: Infinity,
     reconnectInterval,
     retryOnError: true,
+    // Every message is handled; lastMessage would drop some during bursts
+    onMessage: (event) => handleMessage(event),
     onOpen: () => {
       console.log('✅ WebSocket connected successfully');
       setConnectionState('connected');
@@ -114,6 +184,8 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     onClose: (event) => {
       console.log(`🔌 WebSocket disconnected (code: ${event.code}, reason: ${event.reason || 'none'})`);
       setConnectionState('disconnected');
+      // The server closes connections whose credentials expired
+      if (event.code === 4401) requireAuthentication(event.reason);
       onClose?.();
     },
     onError: (event) => {
@@ -124,27 +196,32 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
   }, shouldConnect);
 
   /**
-   * Parse incoming messages and hand them to the provided callback
+   * Send the subscription whenever it changes and after every (re)connect
    */
+  const subscriptionKey = subscription ? JSON.stringify(subscription) : null;
+
   useEffect(() => {
-    if (!lastMessage || typeof lastMessage.data !== 'string') return;
+    if (readyState !== ReadyState.OPEN || subscriptionKey === null) return;
 
-    try {
-      const parsed: WSMessage = JSON.parse(lastMessage.data);
+    sendJsonMessage({
+      type: 'subscribe',
+      data: JSON.parse(subscriptionKey),
+      timestamp: new Date().toISOString(),
+    });
+  }, [readyState, subscriptionKey, sendJsonMessage]);
 
-      if (parsed.type === 'pong' || parsed.type === 'connected') {
-        console.log('💓 Heartbeat received:', parsed.type);
-        if (parsed.type === 'connected') {
-          setConnectionState('connected');
-        }
-        return;
-      }
+  /**
+   * After a reconnect, ask for the changes missed since the last one received
+   */
+  useEffect(() => {
+    if (readyState !== ReadyState.OPEN || lastSeqRef.current === null) return;
 
-      onMessage?.(parsed);
-    } catch (error) {
-      console.error('❌ Error parsing WebSocket message:', error);
-    }
-  }, [lastMessage, onMessage]);
+    sendJsonMessage({
+      type: 'resume',
+      data: { lastSeq: lastSeqRef.current },
+      timestamp: new Date().toISOString(),
+    });
+  }, [readyState, sendJsonMessage]);
 
   /**
    * Update state to reflect transitions reported by the library
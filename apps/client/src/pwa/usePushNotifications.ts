@@ -1,4 +1,6 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
+import { checkResponse } from '../utils/api';
+import { authFetch } from '../utils/auth';
 
 const isBrowser = typeof window !== 'undefined';
 
@@ -46,7 +48,7 @@ export function usePushNotifications() {
       throw new Error('Push subscription is missing encryption keys.');
     }
 
-    const response = await fetch('/api/notifications/subscribe', {
+    const response = await authFetch('/api/notifications/subscribe', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -61,14 +63,11 @@ export function usePushNotifications() {
       }),
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(errorText || 'Failed to register push subscription with the server.');
-    }
+    await checkResponse(response, 'Failed to register push subscription with the server');
   }, []);
 
   const removeSubscriptionFromServer = useCallback(async (endpoint: string) => {
-    const response = await fetch('/api/notifications/subscribe', {
+    const response = await authFetch('/api/notifications/subscribe', {
       method: 'DELETE',
       headers: {
         'Content-Type': 'application/json',
@@ -76,10 +75,7 @@ export function usePushNotifications() {
       body: JSON.stringify({ endpoint }),
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(errorText || 'Failed to remove push subscription from the server.');
-    }
+    await checkResponse(response, 'Failed to remove push subscription from the server');
   }, []);
 
   useEffect(() => {
@@ -17,6 +17,7 @@ export interface AssetProperties {
   status: AssetStatus;
   createdAt: string;
   updatedAt: string;
+  version?: number;
   [key: string]: any;
 }
 
@@ -27,11 +28,92 @@ export interface GeoJSONFeature {
   properties: AssetProperties;
 }
 
+/**
+ * Values of an asset the edit panel changes
+ */
+export interface AssetFormValues {
+  name: string;
+  type: AssetType;
+  status: AssetStatus;
+  properties: Record<string, any>;
+}
+
 export interface GeoJSONFeatureCollection {
   type: 'FeatureCollection';
   features: GeoJSONFeature[];
 }
 
+export interface AssetFeaturePage extends GeoJSONFeatureCollection {
+  totalCount: number;
+  nextCursor: string | null;
+}
+
+export type SpatialPredicate = 'intersects' | 'within' | 'contains' | 'dwithin';
+
+export type AssetOperation = 'create' | 'update' | 'geometry_update' | 'delete' | 'restore';
+
+export interface AssetSnapshot {
+  name: string;
+  type: AssetType;
+  status: AssetStatus;
+  geometry: GeoJSONGeometry;
+  properties: Record<string, unknown>;
+}
+
+export interface AssetVersion {
+  version: number;
+  operation: AssetOperation;
+  changedAt: string;
+  oldValues: AssetSnapshot | null;
+  newValues: AssetSnapshot | null;
+}
+
+export interface AssetHistoryPage {
+  assetId: string;
+  versions: AssetVersion[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface AssetTrack {
+  type: 'Feature';
+  id: string;
+  geometry: {
+    type: 'LineString' | 'MultiPoint';
+    coordinates: number[][];
+  };
+  properties: {
+    assetId: string;
+    name: string;
+    from: string;
+    to: string;
+    count: number;
+    timestamps: string[];
+    speeds: (number | null)[];
+    headings: (number | null)[];
+  };
+}
+
+export interface DeletedAsset {
+  id: string;
+  name: string;
+  type: AssetType;
+  status: AssetStatus;
+  geometry: GeoJSONGeometry;
+  properties: Record<string, unknown>;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt: string;
+}
+
+export interface DeletedAssetsPage {
+  assets: DeletedAsset[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
 export type NotificationSeverity = 'info' | 'success' | 'warning' | 'critical';
 
 export interface NotificationPayload {
@@ -46,11 +128,114 @@ export interface NotificationPayload {
 }
 
 export interface WSMessage {
-  type: 'asset_update' | 'asset_create' | 'asset_delete' | 'notification' | 'ping' | 'pong' | 'connected';
+  type:
+    | 'asset_update'
+    | 'asset_create'
+    | 'asset_delete'
+    | 'asset_exit'
+    | 'asset_patch'
+    | 'notification'
+    | 'subscribe'
+    | 'subscribed'
+    | 'resume'
+    | 'resumed'
+    | 'reload_required'
+    | 'error'
+    | 'ping'
+    | 'pong'
+    | 'connected';
   data?: any;
+  /**
+   * Change log sequence number; resumed, reload_required and pong carry the
+   * number the client has caught up to
+   */
+  seq?: number;
   timestamp: string;
 }
 
+/**
+ * [minLon, minLat, maxLon, maxLat]
+ */
+export type BBox = [number, number, number, number];
+
+/**
+ * Asset changes to receive over the WebSocket
+ * Omitted fields do not filter.
+ */
+export interface AssetSubscription {
+  bbox?: BBox;
+  types?: AssetType[];
+  statuses?: AssetStatus[];
+}
+
+export type Role = 'viewer' | 'dispatcher' | 'editor' | 'admin';
+
+export type Action =
+  | 'assets:read'
+  | 'assets:create'
+  | 'assets:update'
+  | 'assets:delete'
+  | 'assets:import'
+  | 'telemetry:ingest'
+  | 'notifications:subscribe'
+  | 'notifications:publish'
+  | 'rules:read'
+  | 'rules:manage'
+  | 'tenants:manage';
+
+/**
+ * The signed-in user or API key, from GET /api/me
+ * permissions lists the asset types each allowed action applies to.
+ */
+export interface CurrentUser {
+  kind: 'user' | 'api_key' | 'anonymous';
+  id: string;
+  name: string;
+  // Tenant the dashboard works in
+  tenant: string;
+  roles: Role[];
+  assetTypes: AssetType[] | null;
+  permissions: Partial<Record<Action, AssetType[]>>;
+}
+
+/**
+ * Whether the current user may perform an action, on assets of the given
+ * type or on any type when none is given
+ */
+export type PermissionCheck = (action: Action, type?: AssetType) => boolean;
+
+export type ApiErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'UNSUPPORTED_MEDIA_TYPE'
+  | 'INTERNAL_ERROR'
+  | 'SERVICE_UNAVAILABLE';
+
+/**
+ * An invalid field of a request (JSON Pointer or header name) and the problem
+ */
+export interface FieldError {
+  field?: string;
+  message: string;
+}
+
+/**
+ * Body of the API's error answers
+ * details are FieldErrors for VALIDATION_FAILED, the missing permission for
+ * FORBIDDEN and { current } for a version CONFLICT.
+ */
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    details: unknown;
+    requestId: string;
+  };
+}
+
 export interface LayerConfig {
   id: string;
   name: string;
@@ -1,4 +1,20 @@
-import type { GeoJSONFeatureCollection, GeoJSONFeature, AssetType, AssetStatus } from '../types';
+import type {
+  ApiErrorBody,
+  ApiErrorCode,
+  AssetFeaturePage,
+  GeoJSONFeatureCollection,
+  GeoJSONFeature,
+  AssetType,
+  AssetStatus,
+  AssetHistoryPage,
+  AssetTrack,
+  CurrentUser,
+  DeletedAssetsPage,
+  FieldError,
+  GeoJSONGeometry,
+  SpatialPredicate,
+} from '../types';
+import { authFetch, withAccessToken } from './auth';
 
 /**
  * API base URL - empty string because Vite proxy handles routing
@@ -6,26 +22,161 @@ import type { GeoJSONFeatureCollection, GeoJSONFeature, AssetType, AssetStatus }
 const API_BASE = '';
 
 /**
- * Fetch all assets as GeoJSON
+ * How the map draws assets: 'graphics' downloads the full FeatureCollection,
+ * 'tiles' streams Mapbox Vector Tiles from /api/tiles for large datasets
+ */
+export const ASSET_RENDERER: 'graphics' | 'tiles' =
+  import.meta.env.VITE_ASSET_RENDERER?.trim() === 'tiles' ? 'tiles' : 'graphics';
+
+/**
+ * Thrown for an error answer of the API
+ * The message is the server's explanation, e.g. "geometry is not a valid
+ * GeoJSON geometry". code is null for answers without an error body, such as
+ * a proxy's 502; requestId identifies the request in the server logs.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode | null;
+  readonly details: unknown;
+  readonly requestId: string | null;
+
+  constructor(status: number, error: Partial<ApiErrorBody['error']> & { message: string }) {
+    super(error.message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = error.code ?? null;
+    this.details = error.details ?? null;
+    this.requestId = error.requestId ?? null;
+  }
+
+  /**
+   * The invalid fields of a VALIDATION_FAILED error
+   */
+  get fieldErrors(): FieldError[] {
+    return this.code === 'VALIDATION_FAILED' && Array.isArray(this.details) ? this.details : [];
+  }
+}
+
+/**
+ * Thrown when an update was based on a stale version of an asset
+ * current is the asset as the server has it now.
+ */
+export class AssetConflictError extends ApiError {
+  readonly current: GeoJSONFeature;
+
+  constructor(error: ApiErrorBody['error'], current: GeoJSONFeature) {
+    super(409, error);
+    this.name = 'AssetConflictError';
+    this.current = current;
+  }
+}
+
+/**
+ * Thrown when the server refuses an action the user's role does not allow
+ * The message is the server's explanation, e.g. "Not allowed to delete zone assets".
+ */
+export class PermissionError extends ApiError {
+  constructor(error: ApiErrorBody['error']) {
+    super(403, error);
+    this.name = 'PermissionError';
+  }
+}
+
+/**
+ * Throw the ApiError of an error answer
+ * failure is the message for answers without an error body, e.g. "Failed to
+ * fetch assets".
+ */
+export async function checkResponse(response: Response, failure: string) {
+  if (response.ok) return;
+
+  const body: ApiErrorBody | null = await response.json().catch(() => null);
+  const error = body?.error;
+
+  if (!error?.code) {
+    throw new ApiError(response.status, {
+      message: `${failure}: ${response.statusText || response.status}`,
+      requestId: response.headers.get('X-Request-ID') ?? undefined,
+    });
+  }
+
+  const current = (error.details as { current?: GeoJSONFeature } | null)?.current;
+
+  if (error.code === 'CONFLICT' && current) throw new AssetConflictError(error, current);
+  if (error.code === 'FORBIDDEN') throw new PermissionError(error);
+  throw new ApiError(response.status, error);
+}
+
+/**
+ * Message to show the user for a failed request
+ * The server's explanation of API errors, with the invalid fields of
+ * validation errors and the request id of server errors (to quote when
+ * reporting them); the fallback for anything else.
+ */
+export function errorMessage(error: unknown, fallback: string): string {
+  if (!(error instanceof ApiError)) return fallback;
+
+  const fields = error.fieldErrors
+    .filter((field) => field.message !== error.message)
+    .map((field) => (field.field ? `${field.field}: ${field.message}` : field.message));
+
+  let message = fields.length > 0 ? `${error.message} (${fields.join('; ')})` : error.message;
+  if (error.status >= 500 && error.requestId) {
+    message += ` [request ${error.requestId}]`;
+  }
+
+  return message;
+}
+
+/**
+ * The signed-in user with their roles and permissions
+ */
+export async function fetchCurrentUser(): Promise<CurrentUser> {
+  const response = await authFetch(`${API_BASE}/api/me`);
+
+  await checkResponse(response, 'Failed to fetch current user');
+
+  return response.json();
+}
+
+/**
+ * Absolute URL template of the asset vector tiles ({z}/{x}/{y} placeholders)
+ * Tile requests cannot send headers, so the URL carries the access token.
+ */
+export function assetTileUrl(): string {
+  return withAccessToken(`${window.location.origin}${API_BASE}/api/tiles/{z}/{x}/{y}.mvt`);
+}
+
+/**
+ * Fetch assets as GeoJSON
+ * All matching assets unless limit, offset or cursor asks for a page
  */
 export async function fetchAssets(params?: {
   type?: AssetType;
   status?: AssetStatus;
   bbox?: string;
-}): Promise<GeoJSONFeatureCollection> {
+  asOf?: string;
+  limit?: number;
+  offset?: number;
+  cursor?: string;
+  filter?: string;
+}): Promise<AssetFeaturePage> {
   const queryParams = new URLSearchParams();
 
   if (params?.type) queryParams.append('type', params.type);
   if (params?.status) queryParams.append('status', params.status);
   if (params?.bbox) queryParams.append('bbox', params.bbox);
+  if (params?.asOf) queryParams.append('asOf', params.asOf);
+  if (params?.limit !== undefined) queryParams.append('limit', String(params.limit));
+  if (params?.offset !== undefined) queryParams.append('offset', String(params.offset));
+  if (params?.cursor) queryParams.append('cursor', params.cursor);
+  if (params?.filter) queryParams.append('filter', params.filter);
 
   const url = `${API_BASE}/api/assets${queryParams.toString() ? `?${queryParams}` : ''}`;
 
-  const response = await fetch(url);
+  const response = await authFetch(url);
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch assets: ${response.statusText}`);
-  }
+  await checkResponse(response, 'Failed to fetch assets');
 
   return response.json();
 }
@@ -34,11 +185,60 @@ export async function fetchAssets(params?: {
  * Fetch a specific layer's assets
  */
 export async function fetchLayer(layerType: string): Promise<GeoJSONFeatureCollection> {
-  const response = await fetch(`${API_BASE}/api/layers/${layerType}`);
+  const response = await authFetch(`${API_BASE}/api/layers/${layerType}`);
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch layer: ${response.statusText}`);
-  }
+  await checkResponse(response, 'Failed to fetch layer');
+
+  return response.json();
+}
+
+/**
+ * Fetch the k assets nearest to a point, nearest first
+ * Each feature carries its geodesic distance in properties.distance_meters
+ */
+export async function fetchNearestAssets(params: {
+  lon: number;
+  lat: number;
+  k?: number;
+  type?: AssetType;
+  status?: AssetStatus;
+}): Promise<GeoJSONFeatureCollection> {
+  const queryParams = new URLSearchParams({
+    lon: String(params.lon),
+    lat: String(params.lat),
+  });
+
+  if (params.k !== undefined) queryParams.append('k', String(params.k));
+  if (params.type) queryParams.append('type', params.type);
+  if (params.status) queryParams.append('status', params.status);
+
+  const response = await authFetch(`${API_BASE}/api/assets/nearest?${queryParams}`);
+
+  await checkResponse(response, 'Failed to find nearest assets');
+
+  return response.json();
+}
+
+/**
+ * Find the assets matching a spatial predicate against a geometry
+ * distance (metres) is required for the dwithin predicate
+ */
+export async function searchAssets(params: {
+  geometry: GeoJSONGeometry;
+  predicate?: SpatialPredicate;
+  distance?: number;
+  type?: AssetType;
+  status?: AssetStatus;
+}): Promise<GeoJSONFeatureCollection> {
+  const response = await authFetch(`${API_BASE}/api/assets/search`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(params),
+  });
+
+  await checkResponse(response, 'Failed to search assets');
 
   return response.json();
 }
@@ -47,11 +247,51 @@ export async function fetchLayer(layerType: string): Promise<GeoJSONFeatureColle
  * Fetch a single asset by ID
  */
 export async function fetchAsset(id: string) {
-  const response = await fetch(`${API_BASE}/api/assets/${id}`);
+  const response = await authFetch(`${API_BASE}/api/assets/${id}`);
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch asset: ${response.statusText}`);
-  }
+  await checkResponse(response, 'Failed to fetch asset');
+
+  return response.json();
+}
+
+/**
+ * Fetch the change history of an asset (newest version first)
+ */
+export async function fetchAssetHistory(
+  id: string,
+  params?: { limit?: number; offset?: number }
+): Promise<AssetHistoryPage> {
+  const queryParams = new URLSearchParams();
+
+  if (params?.limit !== undefined) queryParams.append('limit', String(params.limit));
+  if (params?.offset !== undefined) queryParams.append('offset', String(params.offset));
+
+  const url = `${API_BASE}/api/assets/${id}/history${queryParams.toString() ? `?${queryParams}` : ''}`;
+
+  const response = await authFetch(url);
+
+  await checkResponse(response, 'Failed to fetch asset history');
+
+  return response.json();
+}
+
+/**
+ * Fetch the recorded track of a vehicle (defaults to the last 24 hours)
+ */
+export async function fetchAssetTrack(
+  id: string,
+  params?: { from?: string; to?: string }
+): Promise<AssetTrack> {
+  const queryParams = new URLSearchParams();
+
+  if (params?.from) queryParams.append('from', params.from);
+  if (params?.to) queryParams.append('to', params.to);
+
+  const url = `${API_BASE}/api/assets/${id}/track${queryParams.toString() ? `?${queryParams}` : ''}`;
+
+  const response = await authFetch(url);
+
+  await checkResponse(response, 'Failed to fetch asset track');
 
   return response.json();
 }
@@ -66,7 +306,7 @@ export async function createAsset(data: {
   geometry: GeoJSON.Geometry;
   properties?: Record<string, any>;
 }): Promise<GeoJSONFeature> {
-  const response = await fetch(`${API_BASE}/api/assets`, {
+  const response = await authFetch(`${API_BASE}/api/assets`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -74,16 +314,15 @@ export async function createAsset(data: {
     body: JSON.stringify(data),
   });
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to create asset: ${error}`);
-  }
+  await checkResponse(response, 'Failed to create asset');
 
   return response.json();
 }
 
 /**
  * Update an existing asset
+ * With a version, the update fails with AssetConflictError when the asset
+ * changed since that version.
  */
 export async function updateAsset(
   id: string,
@@ -93,20 +332,19 @@ export async function updateAsset(
     status: AssetStatus;
     geometry: GeoJSON.Geometry;
     properties?: Record<string, any>;
-  }
+  },
+  version?: number
 ): Promise<GeoJSONFeature> {
-  const response = await fetch(`${API_BASE}/api/assets/${id}`, {
+  const response = await authFetch(`${API_BASE}/api/assets/${id}`, {
     method: 'PUT',
     headers: {
       'Content-Type': 'application/json',
+      ...(version !== undefined ? { 'If-Match': `"${version}"` } : {}),
     },
     body: JSON.stringify(data),
   });
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to update asset: ${error}`);
-  }
+  await checkResponse(response, 'Failed to update asset');
 
   return response.json();
 }
@@ -115,14 +353,51 @@ export async function updateAsset(
  * Delete an asset
  */
 export async function deleteAsset(id: string): Promise<{ success: boolean; id: string }> {
-  const response = await fetch(`${API_BASE}/api/assets/${id}`, {
+  const response = await authFetch(`${API_BASE}/api/assets/${id}`, {
     method: 'DELETE',
   });
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to delete asset: ${error}`);
-  }
+  await checkResponse(response, 'Failed to delete asset');
+
+  return response.json();
+}
+
+/**
+ * Fetch soft-deleted assets (the trash), most recently deleted first
+ */
+export async function fetchDeletedAssets(params?: {
+  type?: AssetType;
+  deletedAfter?: string;
+  deletedBefore?: string;
+  limit?: number;
+  offset?: number;
+}): Promise<DeletedAssetsPage> {
+  const queryParams = new URLSearchParams();
+
+  if (params?.type) queryParams.append('type', params.type);
+  if (params?.deletedAfter) queryParams.append('deletedAfter', params.deletedAfter);
+  if (params?.deletedBefore) queryParams.append('deletedBefore', params.deletedBefore);
+  if (params?.limit !== undefined) queryParams.append('limit', String(params.limit));
+  if (params?.offset !== undefined) queryParams.append('offset', String(params.offset));
+
+  const url = `${API_BASE}/api/assets/deleted${queryParams.toString() ? `?${queryParams}` : ''}`;
+
+  const response = await authFetch(url);
+
+  await checkResponse(response, 'Failed to fetch deleted assets');
+
+  return response.json();
+}
+
+/**
+ * Restore a soft-deleted asset
+ */
+export async function restoreAsset(id: string): Promise<GeoJSONFeature> {
+  const response = await authFetch(`${API_BASE}/api/assets/${id}/restore`, {
+    method: 'POST',
+  });
+
+  await checkResponse(response, 'Failed to restore asset');
 
   return response.json();
 }
@@ -134,7 +409,7 @@ export async function updateAssetGeometry(
   id: string,
   geometry: GeoJSON.Geometry
 ): Promise<GeoJSONFeature> {
-  const response = await fetch(`${API_BASE}/api/assets/${id}/geometry`, {
+  const response = await authFetch(`${API_BASE}/api/assets/${id}/geometry`, {
     method: 'PATCH',
     headers: {
       'Content-Type': 'application/json',
@@ -142,10 +417,7 @@ export async function updateAssetGeometry(
     body: JSON.stringify({ geometry }),
   });
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to update asset geometry: ${error}`);
-  }
+  await checkResponse(response, 'Failed to update asset geometry');
 
   return response.json();
 }
@@ -0,0 +1,86 @@
+import type { ApiErrorBody } from '../types';
+
+/**
+ * Credentials of the dashboard
+ *
+ * Requests carry VITE_API_TOKEN, or the token the user pasted into the
+ * sign-in dialog, which is kept in local storage. A 401 answer fires
+ * AUTH_REQUIRED_EVENT on window so the dialog opens. VITE_TENANT_ID selects
+ * the tenant for tokens that are not bound to one.
+ */
+
+const STORAGE_KEY = 'geospatial-dashboard.accessToken';
+
+export const AUTH_REQUIRED_EVENT = 'auth-required';
+
+export function getAccessToken(): string | null {
+  try {
+    return localStorage.getItem(STORAGE_KEY) || import.meta.env.VITE_API_TOKEN?.trim() || null;
+  } catch {
+    return import.meta.env.VITE_API_TOKEN?.trim() || null;
+  }
+}
+
+/**
+ * Store the token of the signed-in user, or forget it with null
+ */
+export function setAccessToken(token: string | null) {
+  if (token) {
+    localStorage.setItem(STORAGE_KEY, token);
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+/**
+ * Tenant the dashboard asks to work in, null for the token's (or the default) one
+ */
+export function getTenant(): string | null {
+  return import.meta.env.VITE_TENANT_ID?.trim() || null;
+}
+
+/**
+ * Tell the app the credentials are missing or no longer valid
+ */
+export function requireAuthentication(message?: string) {
+  window.dispatchEvent(new CustomEvent(AUTH_REQUIRED_EVENT, { detail: { message } }));
+}
+
+/**
+ * URL carrying the token as access_token and the tenant as tenant, for
+ * requests that cannot send headers (WebSocket upgrades, map tiles)
+ */
+export function withAccessToken(url: string): string {
+  const params = new URLSearchParams();
+  const token = getAccessToken();
+  const tenant = getTenant();
+  if (token) params.set('access_token', token);
+  if (tenant) params.set('tenant', tenant);
+
+  const query = params.toString();
+  if (!query) return url;
+
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}${query}`;
+}
+
+/**
+ * fetch() with the Authorization and X-Tenant-ID headers; 401 answers ask the
+ * user to sign in
+ */
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const token = getAccessToken();
+  const tenant = getTenant();
+  const headers = new Headers(init.headers);
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+  if (tenant) headers.set('X-Tenant-ID', tenant);
+
+  const response = await fetch(input, { ...init, headers });
+
+  if (response.status === 401) {
+    const body: ApiErrorBody | null = await response.clone().json().catch(() => null);
+    requireAuthentication(body?.error?.message);
+  }
+
+  return response;
+}
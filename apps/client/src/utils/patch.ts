@@ -0,0 +1,62 @@
+import type { AssetProperties, GeoJSONFeature } from '../types';
+
+/**
+ * Data of an asset_patch WebSocket message
+ * patch is a JSON merge patch of the asset's name, status and properties.
+ */
+export interface AssetPatch {
+  id: string;
+  patch: {
+    name?: string;
+    status?: AssetProperties['status'];
+    properties?: Record<string, unknown>;
+  };
+  version: number;
+  updatedAt: string;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Apply a JSON merge patch (RFC 7396): objects merge recursively, null
+ * removes a member and anything else replaces the target
+ */
+export function mergePatch(target: unknown, patch: unknown): unknown {
+  if (!isObject(patch)) return patch;
+
+  const result: Record<string, unknown> = isObject(target) ? { ...target } : {};
+
+  Object.entries(patch).forEach(([key, value]) => {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = mergePatch(result[key], value);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Feature with an asset_patch applied
+ * Custom properties sit next to name and status in the feature's properties,
+ * so the properties patch is merged into them directly.
+ */
+export function applyAssetPatch(feature: GeoJSONFeature, { patch, version, updatedAt }: AssetPatch): GeoJSONFeature {
+  const properties = mergePatch(feature.properties, patch.properties ?? {}) as AssetProperties;
+
+  return {
+    ...feature,
+    properties: {
+      ...properties,
+      id: feature.properties.id,
+      type: feature.properties.type,
+      createdAt: feature.properties.createdAt,
+      name: patch.name ?? feature.properties.name,
+      status: patch.status ?? feature.properties.status,
+      version,
+      updatedAt,
+    },
+  };
+}
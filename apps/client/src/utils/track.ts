@@ -0,0 +1,60 @@
+import type { AssetTrack } from '../types';
+
+/**
+ * Time range of a track in epoch milliseconds, null when it has no positions
+ */
+export function trackTimeRange(track: AssetTrack): { start: number; end: number } | null {
+  const { timestamps } = track.properties;
+  if (timestamps.length === 0) return null;
+
+  return {
+    start: Date.parse(timestamps[0]),
+    end: Date.parse(timestamps[timestamps.length - 1]),
+  };
+}
+
+/**
+ * Where the vehicle was at a point in time
+ * index is the last recorded position at or before the time; coordinates are
+ * interpolated linearly between that position and the next one.
+ */
+export function trackPositionAt(
+  track: AssetTrack,
+  time: number
+): { index: number; coordinates: number[] } | null {
+  const { coordinates } = track.geometry;
+  const { timestamps } = track.properties;
+  if (coordinates.length === 0) return null;
+
+  if (time < Date.parse(timestamps[0])) {
+    return { index: 0, coordinates: coordinates[0] };
+  }
+
+  // Binary search for the last position recorded at or before the time
+  let low = 0;
+  let high = timestamps.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (Date.parse(timestamps[mid]) <= time) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  const index = low;
+  if (index === coordinates.length - 1) {
+    return { index, coordinates: coordinates[index] };
+  }
+
+  const from = Date.parse(timestamps[index]);
+  const to = Date.parse(timestamps[index + 1]);
+  const ratio = to > from ? (time - from) / (to - from) : 0;
+  const [x0, y0] = coordinates[index];
+  const [x1, y1] = coordinates[index + 1];
+
+  return {
+    index,
+    coordinates: [x0 + (x1 - x0) * ratio, y0 + (y1 - y0) * ratio],
+  };
+}
@@ -8,10 +8,25 @@ CREATE TYPE asset_type AS ENUM ('vehicle', 'incident', 'poi', 'zone', 'route');
 -- Asset Status Enum
 CREATE TYPE asset_status AS ENUM ('active', 'inactive', 'warning', 'critical');
 
+-- Tenants (workspaces) of the organisations sharing the dashboard
+-- Assets, alert rules and push subscriptions belong to one tenant; id is the
+-- slug clients name in the X-Tenant-ID header and tokens in their tenant claim.
+CREATE TABLE IF NOT EXISTS tenants (
+    id VARCHAR(63) PRIMARY KEY CHECK (id ~ '^[a-z0-9][a-z0-9-]*$'),
+    name VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Tenant of the requests that name none
+INSERT INTO tenants (id, name) VALUES ('default', 'Default') ON CONFLICT DO NOTHING;
+
 -- Main Assets Table
 CREATE TABLE IF NOT EXISTS assets (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
 
+    -- Tenant the asset belongs to
+    tenant_id VARCHAR(63) NOT NULL DEFAULT 'default' REFERENCES tenants(id),
+
     -- Asset identification
     name VARCHAR(255) NOT NULL,
     type asset_type NOT NULL,
@@ -28,13 +43,20 @@ CREATE TABLE IF NOT EXISTS assets (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
 
     -- Soft delete support
-    deleted_at TIMESTAMP WITH TIME ZONE
+    deleted_at TIMESTAMP WITH TIME ZONE,
+
+    -- Optimistic concurrency: incremented by every change, matches asset_history.version
+    version INTEGER NOT NULL DEFAULT 1
 );
 
 -- Create spatial index for high-performance queries
 CREATE INDEX IF NOT EXISTS idx_assets_geometry
     ON assets USING GIST(geometry);
 
+-- Create index on tenant for scoping every query
+CREATE INDEX IF NOT EXISTS idx_assets_tenant
+    ON assets(tenant_id) WHERE deleted_at IS NULL;
+
 -- Create index on type for filtering
 CREATE INDEX IF NOT EXISTS idx_assets_type
     ON assets(type) WHERE deleted_at IS NULL;
@@ -47,10 +69,20 @@ CREATE INDEX IF NOT EXISTS idx_assets_status
 CREATE INDEX IF NOT EXISTS idx_assets_updated_at
     ON assets(updated_at DESC);
 
+-- Create index on deleted_at for the trash view and retention purge
+CREATE INDEX IF NOT EXISTS idx_assets_deleted_at
+    ON assets(deleted_at) WHERE deleted_at IS NOT NULL;
+
 -- Create GIN index on properties for JSON queries
 CREATE INDEX IF NOT EXISTS idx_assets_properties
     ON assets USING GIN(properties);
 
+-- Create unique index on the external system id used by telemetry ingest
+-- (unique within a tenant)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_assets_external_id
+    ON assets(tenant_id, (properties->>'external_id'))
+    WHERE deleted_at IS NULL AND properties ? 'external_id';
+
 -- Function to automatically update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -66,10 +98,367 @@ CREATE TRIGGER update_assets_updated_at
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
 
--- View for active assets as GeoJSON FeatureCollection
+-- Function to increment the version of an asset whenever it changes
+-- Updates that change nothing keep the version, so saving the same values
+-- twice does not conflict. The version cannot be set directly.
+CREATE OR REPLACE FUNCTION increment_asset_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        NEW.version := 1;
+    ELSIF NEW.name IS DISTINCT FROM OLD.name
+        OR NEW.type IS DISTINCT FROM OLD.type
+        OR NEW.status IS DISTINCT FROM OLD.status
+        OR NEW.geometry IS DISTINCT FROM OLD.geometry
+        OR NEW.properties IS DISTINCT FROM OLD.properties
+        OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at THEN
+        NEW.version := OLD.version + 1;
+    ELSE
+        NEW.version := OLD.version;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Trigger to number the versions before every insert/update
+CREATE TRIGGER increment_assets_version
+    BEFORE INSERT OR UPDATE ON assets
+    FOR EACH ROW
+    EXECUTE FUNCTION increment_asset_version();
+
+-- Asset history operations
+CREATE TYPE asset_operation AS ENUM ('create', 'update', 'geometry_update', 'delete', 'restore');
+
+-- Asset change history (one row per version of an asset)
+CREATE TABLE IF NOT EXISTS asset_history (
+    id BIGSERIAL PRIMARY KEY,
+    asset_id UUID NOT NULL,
+    tenant_id VARCHAR(63) NOT NULL,
+    version INTEGER NOT NULL,
+    operation asset_operation NOT NULL,
+
+    -- Values before the change (NULL for create)
+    old_name VARCHAR(255),
+    old_type asset_type,
+    old_status asset_status,
+    old_geometry GEOMETRY(Geometry, 4326),
+    old_properties JSONB,
+
+    -- Values after the change
+    new_name VARCHAR(255),
+    new_type asset_type,
+    new_status asset_status,
+    new_geometry GEOMETRY(Geometry, 4326),
+    new_properties JSONB,
+
+    changed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE (asset_id, version)
+);
+
+-- Create index for paging through an asset's versions
+CREATE INDEX IF NOT EXISTS idx_asset_history_asset
+    ON asset_history(asset_id, version DESC);
+
+-- Create index on changed_at for time-based lookups
+CREATE INDEX IF NOT EXISTS idx_asset_history_changed_at
+    ON asset_history(changed_at);
+
+-- Function to record every asset change as a new version
+CREATE OR REPLACE FUNCTION record_asset_history()
+RETURNS TRIGGER AS $$
+DECLARE
+    op asset_operation;
+    next_version INTEGER;
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        op := 'create';
+    ELSIF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+        op := 'delete';
+    ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+        op := 'restore';
+    ELSIF NEW.name IS NOT DISTINCT FROM OLD.name
+        AND NEW.type IS NOT DISTINCT FROM OLD.type
+        AND NEW.status IS NOT DISTINCT FROM OLD.status
+        AND NEW.properties IS NOT DISTINCT FROM OLD.properties THEN
+        -- Nothing but the geometry (or nothing at all) changed
+        IF NEW.geometry IS NOT DISTINCT FROM OLD.geometry THEN
+            RETURN NEW;
+        END IF;
+        op := 'geometry_update';
+    ELSE
+        op := 'update';
+    END IF;
+
+    -- Numbered by the increment_assets_version trigger
+    next_version := NEW.version;
+
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO asset_history (
+            asset_id, tenant_id, version, operation,
+            new_name, new_type, new_status, new_geometry, new_properties
+        ) VALUES (
+            NEW.id, NEW.tenant_id, next_version, op,
+            NEW.name, NEW.type, NEW.status, NEW.geometry, NEW.properties
+        );
+    ELSE
+        INSERT INTO asset_history (
+            asset_id, tenant_id, version, operation,
+            old_name, old_type, old_status, old_geometry, old_properties,
+            new_name, new_type, new_status, new_geometry, new_properties
+        ) VALUES (
+            NEW.id, NEW.tenant_id, next_version, op,
+            OLD.name, OLD.type, OLD.status, OLD.geometry, OLD.properties,
+            NEW.name, NEW.type, NEW.status, NEW.geometry, NEW.properties
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Trigger to record history after every insert/update
+CREATE TRIGGER record_assets_history
+    AFTER INSERT OR UPDATE ON assets
+    FOR EACH ROW
+    EXECUTE FUNCTION record_asset_history();
+
+-- Numbers the changes of asset_change_log as their transactions commit
+CREATE SEQUENCE IF NOT EXISTS asset_change_seq;
+
+-- Log of the changes announced to WebSocket clients
+-- seq numbers the changes in commit order, so a reconnecting client can
+-- resume after the last change it received; it is NULL until the transaction
+-- that made the change commits. Old entries are pruned by the server.
+-- patch is the JSON merge patch of an update made by PATCH /api/assets/:id.
+CREATE TABLE IF NOT EXISTS asset_change_log (
+    id BIGSERIAL PRIMARY KEY,
+    seq BIGINT UNIQUE,
+    asset_id UUID NOT NULL,
+    tenant_id VARCHAR(63) NOT NULL,
+    operation VARCHAR(10) NOT NULL CHECK (operation IN ('create', 'update', 'delete')),
+    previous JSONB,
+    patch JSONB,
+    changed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create index for pruning old entries
+CREATE INDEX IF NOT EXISTS idx_asset_change_log_changed_at ON asset_change_log(changed_at);
+
+-- Create index for replaying the changes of one tenant
+CREATE INDEX IF NOT EXISTS idx_asset_change_log_tenant ON asset_change_log(tenant_id, seq);
+
+-- Function to log every visible asset change
+-- Restores are logged as creates because clients dropped the asset on delete.
+-- An update made by PATCH /api/assets/:id logs the merge patch the server put
+-- in app.asset_patch ({"id": ..., "patch": ...}).
+-- The change is numbered and announced when its transaction commits, by
+-- sequence_asset_changes() below.
+CREATE OR REPLACE FUNCTION notify_asset_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    op TEXT;
+    asset_id UUID;
+    tenant_id VARCHAR(63);
+    previous JSON;
+    patch JSONB;
+    asset_patch JSONB;
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.deleted_at IS NOT NULL THEN
+            RETURN NULL;
+        END IF;
+        op := 'create';
+        asset_id := NEW.id;
+        tenant_id := NEW.tenant_id;
+    ELSIF TG_OP = 'DELETE' THEN
+        -- Purging an asset from the trash is invisible to clients
+        IF OLD.deleted_at IS NOT NULL THEN
+            RETURN NULL;
+        END IF;
+        op := 'delete';
+        asset_id := OLD.id;
+        tenant_id := OLD.tenant_id;
+    ELSE
+        IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+            op := 'delete';
+        ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+            op := 'create';
+        ELSIF NEW.deleted_at IS NOT NULL THEN
+            RETURN NULL;
+        ELSIF NEW.name IS NOT DISTINCT FROM OLD.name
+            AND NEW.type IS NOT DISTINCT FROM OLD.type
+            AND NEW.status IS NOT DISTINCT FROM OLD.status
+            AND NEW.geometry IS NOT DISTINCT FROM OLD.geometry
+            AND NEW.properties IS NOT DISTINCT FROM OLD.properties THEN
+            RETURN NULL;
+        ELSE
+            op := 'update';
+        END IF;
+        asset_id := NEW.id;
+        tenant_id := NEW.tenant_id;
+    END IF;
+
+    IF op <> 'create' THEN
+        previous := json_build_object(
+            'type', OLD.type,
+            'status', OLD.status,
+            'bbox', json_build_array(
+                ST_XMin(OLD.geometry), ST_YMin(OLD.geometry),
+                ST_XMax(OLD.geometry), ST_YMax(OLD.geometry)
+            )
+        );
+    END IF;
+
+    IF op = 'update' THEN
+        asset_patch := NULLIF(current_setting('app.asset_patch', true), '')::jsonb;
+        IF asset_patch->>'id' = asset_id::text THEN
+            patch := asset_patch->'patch';
+        END IF;
+    END IF;
+
+    INSERT INTO asset_change_log (asset_id, tenant_id, operation, previous, patch)
+    VALUES (asset_id, tenant_id, op, previous, patch);
+
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+-- Trigger to log every insert/update/delete
+CREATE TRIGGER notify_assets_change
+    AFTER INSERT OR UPDATE OR DELETE ON assets
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_asset_change();
+
+-- Function to number the changes a transaction logged and announce them on
+-- the asset_changes channel, run when the transaction commits
+-- The payload only carries the log sequence number, the operation, the id, the
+-- tenant and, for updates and deletes, the type, status and bounding box the
+-- asset had before (NOTIFY payloads are limited to 8000 bytes); listeners load
+-- the asset themselves.
+-- The lock is only held from here to the end of the commit, so numbers are
+-- handed out in the order transactions commit, and a change with a lower
+-- number can never be announced after one with a higher number, without
+-- serializing the transactions themselves. The first invocation in a
+-- transaction numbers all of its changes; the others find nothing left to do.
+CREATE OR REPLACE FUNCTION sequence_asset_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+    change RECORD;
+    change_seq BIGINT;
+BEGIN
+    -- Rows of other transactions are not visible here, so NULL seqs are ours
+    IF NOT EXISTS (SELECT 1 FROM asset_change_log WHERE id = NEW.id AND seq IS NULL) THEN
+        RETURN NULL;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext('asset_change_log'));
+
+    FOR change IN
+        SELECT id, asset_id, tenant_id, operation, previous, patch
+        FROM asset_change_log
+        WHERE seq IS NULL
+        ORDER BY id
+    LOOP
+        change_seq := nextval('asset_change_seq');
+        UPDATE asset_change_log SET seq = change_seq WHERE id = change.id;
+
+        PERFORM pg_notify(
+            'asset_changes',
+            json_build_object(
+                'seq', change_seq,
+                'op', change.operation,
+                'id', change.asset_id,
+                'tenant', change.tenant_id,
+                'previous', change.previous,
+                'patched', change.patch IS NOT NULL
+            )::text
+        );
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+-- Trigger to number and announce logged changes at commit time
+CREATE CONSTRAINT TRIGGER sequence_asset_change_log
+    AFTER INSERT ON asset_change_log
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW
+    EXECUTE FUNCTION sequence_asset_changes();
+
+-- Track of every position recorded for vehicle assets
+CREATE TABLE IF NOT EXISTS asset_positions (
+    id BIGSERIAL PRIMARY KEY,
+    asset_id UUID NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+    recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    position GEOMETRY(Point, 4326) NOT NULL,
+    speed DOUBLE PRECISION,
+    heading DOUBLE PRECISION
+);
+
+-- Create index for reading a vehicle's track over a time window
+CREATE INDEX IF NOT EXISTS idx_asset_positions_asset_time
+    ON asset_positions(asset_id, recorded_at);
+
+-- Function to record a vehicle's position whenever it is created or moved
+-- speed and heading are copied from the numeric properties of the same name.
+-- Telemetry ingest records its own timestamped fixes and sets app.telemetry.
+CREATE OR REPLACE FUNCTION record_asset_position()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_setting('app.telemetry', true) = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.type <> 'vehicle'
+        OR NEW.deleted_at IS NOT NULL
+        OR GeometryType(NEW.geometry) <> 'POINT' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND NEW.geometry IS NOT DISTINCT FROM OLD.geometry THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO asset_positions (asset_id, position, speed, heading)
+    VALUES (
+        NEW.id,
+        NEW.geometry,
+        CASE WHEN jsonb_typeof(NEW.properties->'speed') = 'number'
+            THEN (NEW.properties->>'speed')::DOUBLE PRECISION END,
+        CASE WHEN jsonb_typeof(NEW.properties->'heading') = 'number'
+            THEN (NEW.properties->>'heading')::DOUBLE PRECISION END
+    );
+
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Trigger to record positions after every insert/update
+CREATE TRIGGER record_assets_position
+    AFTER INSERT OR UPDATE ON assets
+    FOR EACH ROW
+    EXECUTE FUNCTION record_asset_position();
+
+-- Zones each vehicle is currently inside (maintained by the geofence engine)
+CREATE TABLE IF NOT EXISTS geofence_memberships (
+    vehicle_id UUID NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+    zone_id UUID NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+    entered_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (vehicle_id, zone_id)
+);
+
+-- Create index for dropping the memberships of a zone
+CREATE INDEX IF NOT EXISTS idx_geofence_memberships_zone
+    ON geofence_memberships(zone_id);
+
+-- View for active assets as GeoJSON FeatureCollection, one row per tenant
 -- This is the core query that will be used by the API
 CREATE OR REPLACE VIEW assets_geojson AS
 SELECT
+    tenant_id,
     jsonb_build_object(
         'type', 'FeatureCollection',
         'features', jsonb_agg(
@@ -83,17 +472,20 @@ SELECT
                     'type', type,
                     'status', status,
                     'created_at', created_at,
-                    'updated_at', updated_at
+                    'updated_at', updated_at,
+                    'version', version
                 ) || COALESCE(properties, '{}'::jsonb)
             )
         )
     ) as geojson
 FROM assets
-WHERE deleted_at IS NULL;
+WHERE deleted_at IS NULL
+GROUP BY tenant_id;
 
 -- Layer-specific views for performance
 CREATE OR REPLACE VIEW vehicles_geojson AS
 SELECT
+    tenant_id,
     jsonb_build_object(
         'type', 'FeatureCollection',
         'features', jsonb_agg(
@@ -107,16 +499,19 @@ SELECT
                     'type', type,
                     'status', status,
                     'created_at', created_at,
-                    'updated_at', updated_at
+                    'updated_at', updated_at,
+                    'version', version
                 ) || COALESCE(properties, '{}'::jsonb)
             )
         )
     ) as geojson
 FROM assets
-WHERE type = 'vehicle' AND deleted_at IS NULL;
+WHERE type = 'vehicle' AND deleted_at IS NULL
+GROUP BY tenant_id;
 
 CREATE OR REPLACE VIEW incidents_geojson AS
 SELECT
+    tenant_id,
     jsonb_build_object(
         'type', 'FeatureCollection',
         'features', jsonb_agg(
@@ -130,27 +525,90 @@ SELECT
                     'type', type,
                     'status', status,
                     'created_at', created_at,
-                    'updated_at', updated_at
+                    'updated_at', updated_at,
+                    'version', version
                 ) || COALESCE(properties, '{}'::jsonb)
             )
         )
     ) as geojson
 FROM assets
-WHERE type = 'incident' AND deleted_at IS NULL;
+WHERE type = 'incident' AND deleted_at IS NULL
+GROUP BY tenant_id;
 
 -- Push notification subscriptions
+-- A browser subscribes to each tenant it follows separately.
 CREATE TABLE IF NOT EXISTS push_subscriptions (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-    endpoint TEXT UNIQUE NOT NULL,
+    tenant_id VARCHAR(63) NOT NULL DEFAULT 'default' REFERENCES tenants(id),
+    endpoint TEXT NOT NULL,
     p256dh TEXT NOT NULL,
     auth TEXT NOT NULL,
     expiration_time BIGINT,
     user_agent TEXT,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE (tenant_id, endpoint)
 );
 
 CREATE TRIGGER update_push_subscriptions_updated_at
     BEFORE UPDATE ON push_subscriptions
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
+
+-- Alert rules evaluated by the rules engine on every asset change
+CREATE TABLE IF NOT EXISTS alert_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id VARCHAR(63) NOT NULL DEFAULT 'default' REFERENCES tenants(id),
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    asset_type asset_type,
+    condition TEXT,
+    -- Zones a rule names are kept by the retention job, never purged under it
+    zone_id UUID REFERENCES assets(id) ON DELETE RESTRICT,
+    severity VARCHAR(20) NOT NULL DEFAULT 'warning'
+        CHECK (severity IN ('info', 'success', 'warning', 'critical')),
+    trigger VARCHAR(20) NOT NULL DEFAULT 'transition'
+        CHECK (trigger IN ('transition', 'always')),
+    message TEXT,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TRIGGER update_alert_rules_updated_at
+    BEFORE UPDATE ON alert_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Assets currently matching each rule (maintained by the rules engine)
+CREATE TABLE IF NOT EXISTS alert_rule_matches (
+    rule_id UUID NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+    asset_id UUID NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+    matched_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (rule_id, asset_id)
+);
+
+-- Create index for dropping the matches of a purged asset
+CREATE INDEX IF NOT EXISTS idx_alert_rule_matches_asset
+    ON alert_rule_matches(asset_id);
+
+-- API keys of machine integrations (Kafka bridges, telemetry gateways)
+-- Only the SHA-256 hash of a key is stored; key_prefix identifies it in listings.
+-- role grants the key its permissions; asset_types, when set, narrows the asset
+-- types it may change. A key with a tenant_id only works in that tenant.
+CREATE TABLE IF NOT EXISTS api_keys (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    key_hash CHAR(64) UNIQUE NOT NULL,
+    key_prefix VARCHAR(16) NOT NULL,
+    role VARCHAR(20) NOT NULL DEFAULT 'viewer'
+        CHECK (role IN ('viewer', 'dispatcher', 'editor', 'admin')),
+    asset_types asset_type[],
+    tenant_id VARCHAR(63) REFERENCES tenants(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
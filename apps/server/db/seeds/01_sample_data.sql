@@ -137,7 +137,7 @@ INSERT INTO assets (name, type, status, geometry, properties) VALUES
             ST_MakePoint(-122.425, 37.785),
             ST_MakePoint(-122.425, 37.775)
         ])), 4326),
-        '{"zone_id": "Z-003", "restriction": "no entry", "active_until": "2025-12-31"}'::jsonb
+        '{"zone_id": "Z-003", "restriction": "no entry", "active_until": "2025-12-31", "geofence_severity": "critical"}'::jsonb
     );
 
 -- Insert sample routes (lines) - Patrol routes
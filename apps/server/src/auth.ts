@@ -0,0 +1,401 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { Elysia } from 'elysia';
+import { sql } from './db';
+import { UnauthorizedError, toApiError } from './errors';
+import type { ApiKey, AssetType, Principal, Role } from './types';
+
+/**
+ * Authentication
+ *
+ * Requests authenticate with one of:
+ * - Authorization: Bearer <JWT>, an HS256 token signed with JWT_SECRET, for users
+ * - X-API-Key: <key> (or Authorization: ApiKey <key>), for machine integrations
+ *   such as Kafka bridges and telemetry gateways; only SHA-256 hashes of the
+ *   keys are stored, in api_keys
+ * Browsers cannot set headers on a WebSocket or on map tile requests, so GET
+ * requests also accept the token as the access_token query parameter.
+ *
+ * Users without a roles claim are viewers. A tenant claim (api_keys.tenant_id
+ * for keys) binds the principal to that tenant. AUTH_DISABLED=true lets every
+ * request through as an anonymous admin, outside of production only.
+ */
+
+const JWT_SECRET = Bun.env.JWT_SECRET || '';
+const JWT_ISSUER = Bun.env.JWT_ISSUER || undefined;
+const JWT_AUDIENCE = Bun.env.JWT_AUDIENCE || undefined;
+// Tolerated clock difference with the token issuer
+const JWT_CLOCK_SKEW = Number(Bun.env.JWT_CLOCK_SKEW) || 30; // seconds
+
+const AUTH_DISABLED = Bun.env.AUTH_DISABLED === 'true' && Bun.env.NODE_ENV !== 'production';
+
+const API_KEY_PREFIX = 'gd_';
+
+// Writes of api_keys.last_used_at are spaced at least this far apart per key
+const LAST_USED_INTERVAL = 60 * 1000; // 1 minute
+const lastUsedWrites = new Map<string, number>();
+
+export const ROLES: Role[] = ['viewer', 'dispatcher', 'editor', 'admin'];
+const ASSET_TYPES: AssetType[] = ['vehicle', 'incident', 'poi', 'zone', 'route'];
+
+const ANONYMOUS: Principal = {
+  kind: 'anonymous',
+  id: 'anonymous',
+  name: 'Anonymous',
+  roles: ['admin'],
+  assetTypes: null,
+  tenant: null,
+  expiresAt: null,
+};
+
+/**
+ * Raised when credentials are present but invalid
+ */
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Known roles of a roles / role claim, viewer when it names none
+ */
+function rolesClaim(claims: Record<string, any>): Role[] {
+  const claimed = Array.isArray(claims.roles) ? claims.roles : [claims.roles ?? claims.role];
+  const roles = ROLES.filter((role) => claimed.includes(role));
+  return roles.length > 0 ? roles : ['viewer'];
+}
+
+/**
+ * Known asset types of an asset_types claim, null when it is absent
+ */
+function assetTypesClaim(value: unknown): AssetType[] | null {
+  if (!Array.isArray(value)) return null;
+  return ASSET_TYPES.filter((type) => value.includes(type));
+}
+
+const base64UrlDecode = (value: string) => Buffer.from(value, 'base64url');
+
+const hmacSha256 = (data: string) => createHmac('sha256', JWT_SECRET).update(data).digest();
+
+/**
+ * Verify an HS256 JSON Web Token and return the user it names
+ */
+export function verifyJwt(token: string): Principal {
+  if (!JWT_SECRET) {
+    throw new AuthError('Bearer tokens are not accepted: JWT_SECRET is not configured');
+  }
+
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new AuthError('Malformed token');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+  let header: Record<string, any>;
+  let claims: Record<string, any>;
+
+  try {
+    header = JSON.parse(base64UrlDecode(encodedHeader).toString('utf8'));
+    claims = JSON.parse(base64UrlDecode(encodedPayload).toString('utf8'));
+  } catch {
+    throw new AuthError('Malformed token');
+  }
+
+  if (header.alg !== 'HS256') {
+    throw new AuthError(`Unsupported token algorithm: ${header.alg}`);
+  }
+
+  const expected = hmacSha256(`${encodedHeader}.${encodedPayload}`);
+  const signature = base64UrlDecode(encodedSignature);
+  if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+    throw new AuthError('Invalid token signature');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+
+  if (typeof claims.exp === 'number' && now > claims.exp + JWT_CLOCK_SKEW) {
+    throw new AuthError('Token expired');
+  }
+
+  if (typeof claims.nbf === 'number' && now < claims.nbf - JWT_CLOCK_SKEW) {
+    throw new AuthError('Token not yet valid');
+  }
+
+  if (JWT_ISSUER && claims.iss !== JWT_ISSUER) {
+    throw new AuthError('Token issuer not accepted');
+  }
+
+  if (JWT_AUDIENCE) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(JWT_AUDIENCE)) {
+      throw new AuthError('Token audience not accepted');
+    }
+  }
+
+  if (typeof claims.sub !== 'string' || claims.sub.length === 0) {
+    throw new AuthError('Token has no subject');
+  }
+
+  return {
+    kind: 'user',
+    id: claims.sub,
+    name: typeof claims.name === 'string' ? claims.name : claims.sub,
+    roles: rolesClaim(claims),
+    assetTypes: assetTypesClaim(claims.asset_types),
+    tenant: typeof claims.tenant === 'string' && claims.tenant.length > 0 ? claims.tenant : null,
+    expiresAt: typeof claims.exp === 'number' ? (claims.exp + JWT_CLOCK_SKEW) * 1000 : null,
+  };
+}
+
+/**
+ * SHA-256 hash of an API key, as stored in api_keys.key_hash
+ * Keys are long random strings, so a fast unsalted hash is enough.
+ */
+export const hashApiKey = (key: string) => createHash('sha256').update(key).digest('hex');
+
+/**
+ * Look up the live API key and return the integration it belongs to
+ */
+export async function verifyApiKey(key: string): Promise<Principal> {
+  const [row] = await sql<
+    {
+      id: string;
+      name: string;
+      role: Role;
+      asset_types: AssetType[] | null;
+      tenant_id: string | null;
+      expires_at: Date | null;
+    }[]
+  >`
+    SELECT id, name, role, asset_types::text[] as asset_types, tenant_id, expires_at
+    FROM api_keys
+    WHERE key_hash = ${hashApiKey(key)}
+      AND revoked_at IS NULL
+      AND (expires_at IS NULL OR expires_at > NOW())
+  `;
+
+  if (!row) {
+    throw new AuthError('Invalid API key');
+  }
+
+  const lastWrite = lastUsedWrites.get(row.id) ?? 0;
+  if (Date.now() - lastWrite > LAST_USED_INTERVAL) {
+    lastUsedWrites.set(row.id, Date.now());
+    sql`UPDATE api_keys SET last_used_at = NOW() WHERE id = ${row.id}`.catch((error) => {
+      console.error('❌ Error recording API key use:', error);
+    });
+  }
+
+  return {
+    kind: 'api_key',
+    id: row.id,
+    name: row.name,
+    roles: [row.role],
+    assetTypes: row.asset_types,
+    tenant: row.tenant_id,
+    expiresAt: row.expires_at ? new Date(row.expires_at).getTime() : null,
+  };
+}
+
+/**
+ * Who made a request, from its headers (and access_token query parameter)
+ * Returns null without credentials; throws AuthError for invalid ones.
+ */
+export async function authenticate(
+  headers: Record<string, string | undefined>,
+  accessToken?: string
+): Promise<Principal | null> {
+  if (AUTH_DISABLED) return ANONYMOUS;
+
+  const apiKey = headers['x-api-key']?.trim();
+  if (apiKey) return verifyApiKey(apiKey);
+
+  const authorization = headers['authorization']?.trim();
+  if (authorization) {
+    const [scheme, credentials] = authorization.split(/\s+/, 2);
+
+    if (!credentials) {
+      throw new AuthError('Malformed Authorization header');
+    }
+
+    switch (scheme.toLowerCase()) {
+      case 'bearer':
+        return verifyJwt(credentials);
+      case 'apikey':
+        return verifyApiKey(credentials);
+      default:
+        throw new AuthError(`Unsupported authorization scheme: ${scheme}`);
+    }
+  }
+
+  if (accessToken) {
+    return accessToken.startsWith(API_KEY_PREFIX) ? verifyApiKey(accessToken) : verifyJwt(accessToken);
+  }
+
+  return null;
+}
+
+/**
+ * Elysia plugin requiring authentication on every route registered after it
+ * Resolves `principal` for the handlers; other requests answer 401.
+ */
+export const authentication = new Elysia({ name: 'authentication' })
+  .derive({ as: 'scoped' }, async ({ headers, query, request }) => {
+    try {
+      const accessToken =
+        request.method === 'GET' && typeof query.access_token === 'string' ? query.access_token : undefined;
+      return { principal: await authenticate(headers, accessToken), authError: null };
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return { principal: null, authError: error.message };
+      }
+
+      throw toApiError(error, 'Failed to authenticate request');
+    }
+  })
+  .onBeforeHandle({ as: 'scoped' }, ({ principal, authError, set }) => {
+    if (principal) return;
+
+    set.headers['www-authenticate'] = authError
+      ? `Bearer error="invalid_token", error_description="${authError}"`
+      : 'Bearer';
+
+    throw new UnauthorizedError(authError ?? 'Authentication required');
+  });
+
+const API_KEY_COLUMNS = sql`
+  id,
+  name,
+  key_prefix,
+  role,
+  asset_types::text[] as asset_types,
+  tenant_id,
+  created_at,
+  expires_at,
+  last_used_at,
+  revoked_at
+`;
+
+/**
+ * Create an API key for an integration
+ * The key itself is only returned here; it cannot be recovered later.
+ */
+export async function createApiKey(
+  name: string,
+  {
+    role = 'viewer',
+    assetTypes = null,
+    tenant = null,
+    expiresAt,
+  }: { role?: Role; assetTypes?: AssetType[] | null; tenant?: string | null; expiresAt?: Date } = {}
+): Promise<{ apiKey: ApiKey; key: string }> {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+  const [row] = await sql`
+    INSERT INTO api_keys (name, key_hash, key_prefix, role, asset_types, tenant_id, expires_at)
+    VALUES (
+      ${name},
+      ${hashApiKey(key)},
+      ${key.slice(0, API_KEY_PREFIX.length + 6)},
+      ${role},
+      ${assetTypes}::asset_type[],
+      ${tenant},
+      ${expiresAt ?? null}
+    )
+    RETURNING ${API_KEY_COLUMNS}
+  `;
+
+  return { apiKey: toApiKey(row), key };
+}
+
+export async function listApiKeys(): Promise<ApiKey[]> {
+  const rows = await sql`
+    SELECT ${API_KEY_COLUMNS}
+    FROM api_keys
+    ORDER BY created_at DESC
+  `;
+
+  return rows.map(toApiKey);
+}
+
+/**
+ * Revoke an API key; returns false if it does not exist or was already revoked
+ */
+export async function revokeApiKey(id: string): Promise<boolean> {
+  const result = await sql`
+    UPDATE api_keys
+    SET revoked_at = NOW()
+    WHERE id = ${id} AND revoked_at IS NULL
+  `;
+
+  return result.count > 0;
+}
+
+const toApiKey = (row: Record<string, any>): ApiKey => ({
+  id: row.id,
+  name: row.name,
+  keyPrefix: row.key_prefix,
+  role: row.role,
+  assetTypes: row.asset_types,
+  tenant: row.tenant_id,
+  createdAt: row.created_at,
+  expiresAt: row.expires_at,
+  lastUsedAt: row.last_used_at,
+  revokedAt: row.revoked_at,
+});
+
+/**
+ * Manage API keys from the command line:
+ *   bun run api-key create <name> [--role editor] [--types vehicle,incident] [--tenant north] [--expires 2027-01-01]
+ *   bun run api-key list
+ *   bun run api-key revoke <id>
+ */
+if (import.meta.main) {
+  const [command, ...args] = process.argv.slice(2);
+  const option = (flag: string) => {
+    const index = args.indexOf(flag);
+    return index === -1 ? undefined : args[index + 1];
+  };
+
+  try {
+    const role = option('--role') ?? 'viewer';
+    const types = option('--types')?.split(',');
+    const expires = option('--expires');
+
+    if (command === 'create' && args[0] && !args[0].startsWith('--')) {
+      if (!ROLES.includes(role as Role)) {
+        throw new Error(`Unknown role "${role}" (${ROLES.join(', ')})`);
+      }
+
+      const unknownType = types?.find((type) => !ASSET_TYPES.includes(type as AssetType));
+      if (unknownType) {
+        throw new Error(`Unknown asset type "${unknownType}" (${ASSET_TYPES.join(', ')})`);
+      }
+
+      const { apiKey, key } = await createApiKey(args[0], {
+        role: role as Role,
+        assetTypes: (types as AssetType[] | undefined) ?? null,
+        tenant: option('--tenant') ?? null,
+        expiresAt: expires ? new Date(expires) : undefined,
+      });
+      console.log(`🔑 Created ${apiKey.role} API key ${apiKey.id} for "${apiKey.name}"`);
+      console.log(`   ${key}`);
+      console.log('   Store it now: it cannot be shown again.');
+    } else if (command === 'list') {
+      console.table(await listApiKeys());
+    } else if (command === 'revoke' && args[0]) {
+      console.log((await revokeApiKey(args[0])) ? '🔒 API key revoked' : 'ℹ️  No live API key with this id');
+    } else {
+      console.log(
+        'Usage: bun run api-key create <name> [--role <role>] [--types <types>] [--tenant <tenant>] [--expires <date>] | list | revoke <id>'
+      );
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  } finally {
+    await sql.end();
+  }
+}
@@ -0,0 +1,184 @@
+import { getSchemaValidator, type Static } from 'elysia';
+import { sql } from './db';
+import { assetCommand } from './schemas';
+import { DEFAULT_TENANT, tenantExists } from './tenants';
+import type { AssetType, GeoJSONFeature } from './types';
+
+/**
+ * Asset commands consumed from Kafka
+ *
+ * Upstream systems publish create / upsert / delete commands whose asset is
+ * validated against the POST /api/assets body schema. The notification
+ * center consumes the topic, applies each command here and reports failures
+ * on the error topic.
+ */
+
+export type AssetCommand = Static<typeof assetCommand>;
+
+export type AssetCommandResult = { tenant: string } & (
+  | { action: 'create'; feature: GeoJSONFeature }
+  | { action: 'upsert'; feature: GeoJSONFeature; created: boolean }
+  | { action: 'delete'; id: string; name: string; type: AssetType }
+);
+
+/**
+ * Raised when a command is invalid or cannot be applied
+ */
+export class AssetCommandError extends Error {
+  constructor(
+    message: string,
+    readonly details: string[] = []
+  ) {
+    super(message);
+    this.name = 'AssetCommandError';
+  }
+}
+
+const validator = getSchemaValidator(assetCommand)!;
+
+const ASSET_COLUMNS = sql`
+  id,
+  name,
+  type,
+  status,
+  ST_AsGeoJSON(geometry)::jsonb as geometry,
+  properties,
+  created_at,
+  updated_at,
+  version
+`;
+
+const toFeature = (asset: Record<string, any>): GeoJSONFeature => ({
+  type: 'Feature',
+  id: asset.id,
+  geometry: asset.geometry,
+  properties: {
+    id: asset.id,
+    name: asset.name,
+    type: asset.type,
+    status: asset.status,
+    createdAt: asset.created_at,
+    updatedAt: asset.updated_at,
+    version: asset.version,
+    ...(asset.properties || {}),
+  },
+});
+
+/**
+ * Validate a decoded message against the command schema
+ */
+export function parseAssetCommand(payload: unknown): AssetCommand {
+  if (!validator.Check(payload)) {
+    const details = [...validator.Errors(payload)].map((error) => `${error.path || '/'}: ${error.message}`);
+    throw new AssetCommandError('Invalid asset command', details);
+  }
+
+  const command = payload as AssetCommand;
+
+  if ((command.action === 'create' || command.action === 'upsert') && !command.asset) {
+    throw new AssetCommandError(`${command.action} needs an asset`);
+  }
+
+  if (command.action === 'delete' && !command.id && !command.externalId) {
+    throw new AssetCommandError('delete needs an id or an externalId');
+  }
+
+  return command;
+}
+
+async function createAsset(tenant: string, { asset }: AssetCommand) {
+  const { name, type, status, geometry, properties } = asset!;
+
+  const [row] = await sql`
+    INSERT INTO assets (tenant_id, name, type, status, geometry, properties)
+    VALUES (
+      ${tenant},
+      ${name},
+      ${type},
+      ${status},
+      ST_SetSRID(ST_GeomFromGeoJSON(${JSON.stringify(geometry)}), 4326),
+      ${JSON.stringify(properties || {})}::jsonb
+    )
+    RETURNING ${ASSET_COLUMNS}
+  `;
+
+  return toFeature(row);
+}
+
+/**
+ * Replace the tenant's live asset with the external id, or insert it
+ */
+async function upsertAsset(tenant: string, { asset, externalId }: AssetCommand) {
+  const { name, type, status, geometry, properties } = asset!;
+  const key = externalId ?? properties?.external_id;
+
+  if (typeof key !== 'string' || key.length === 0) {
+    throw new AssetCommandError('upsert needs an externalId or asset.properties.external_id');
+  }
+
+  const [row] = await sql`
+    INSERT INTO assets (tenant_id, name, type, status, geometry, properties)
+    VALUES (
+      ${tenant},
+      ${name},
+      ${type},
+      ${status},
+      ST_SetSRID(ST_GeomFromGeoJSON(${JSON.stringify(geometry)}), 4326),
+      ${JSON.stringify({ ...(properties || {}), external_id: key })}::jsonb
+    )
+    ON CONFLICT (tenant_id, (properties->>'external_id'))
+      WHERE deleted_at IS NULL AND properties ? 'external_id'
+    DO UPDATE SET
+      name = EXCLUDED.name,
+      type = EXCLUDED.type,
+      status = EXCLUDED.status,
+      geometry = EXCLUDED.geometry,
+      properties = EXCLUDED.properties,
+      updated_at = NOW()
+    RETURNING ${ASSET_COLUMNS}, (xmax = 0) as inserted
+  `;
+
+  return { feature: toFeature(row), created: row.inserted as boolean };
+}
+
+/**
+ * Soft delete the tenant's asset with the id or external id
+ */
+async function deleteAsset(tenant: string, { id, externalId }: AssetCommand) {
+  const [row] = await sql<{ id: string; name: string; type: AssetType }[]>`
+    UPDATE assets
+    SET deleted_at = NOW()
+    WHERE ${id ? sql`id = ${id}` : sql`properties->>'external_id' = ${externalId!}`}
+      AND tenant_id = ${tenant}
+      AND deleted_at IS NULL
+    RETURNING id, name, type
+  `;
+
+  if (!row) {
+    throw new AssetCommandError('Asset not found or already deleted');
+  }
+
+  return row;
+}
+
+/**
+ * Validate and apply one command
+ * Throws AssetCommandError for invalid commands; database errors propagate.
+ */
+export async function applyAssetCommand(payload: unknown): Promise<AssetCommandResult> {
+  const command = parseAssetCommand(payload);
+  const tenant = command.tenant ?? DEFAULT_TENANT;
+
+  if (!(await tenantExists(tenant))) {
+    throw new AssetCommandError(`Tenant "${tenant}" not found`);
+  }
+
+  switch (command.action) {
+    case 'create':
+      return { tenant, action: 'create', feature: await createAsset(tenant, command) };
+    case 'upsert':
+      return { tenant, action: 'upsert', ...(await upsertAsset(tenant, command)) };
+    case 'delete':
+      return { tenant, action: 'delete', ...(await deleteAsset(tenant, command)) };
+  }
+}
@@ -0,0 +1,207 @@
+import { Elysia } from 'elysia';
+import postgres from 'postgres';
+import { randomUUID } from 'crypto';
+import type { ApiErrorBody, ApiErrorCode, FieldError } from './types';
+
+/**
+ * API errors
+ *
+ * Handlers throw the errors below, or hand what they caught to toApiError(),
+ * and the errorHandling plugin answers them with their status and a
+ * `{ error: { code, message, details, requestId } }` body. The request id is
+ * also sent as X-Request-ID and logged with server errors.
+ */
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+// Request ids accepted from clients and proxies, others are replaced
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * An error answered with its status, code and details
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ApiErrorCode,
+    message: string,
+    readonly details: unknown = null
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Invalid request (400); details list the fields concerned
+ */
+export class ValidationError extends ApiError {
+  constructor(message: string, details: FieldError[] = []) {
+    super(400, 'VALIDATION_FAILED', message, details);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Missing or invalid credentials (401)
+ */
+export class UnauthorizedError extends ApiError {
+  constructor(message: string) {
+    super(401, 'UNAUTHORIZED', message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/**
+ * Action the principal may not perform (403)
+ */
+export class ForbiddenError extends ApiError {
+  constructor(message: string, details: unknown = null) {
+    super(403, 'FORBIDDEN', message, details);
+    this.name = 'ForbiddenError';
+  }
+}
+
+/**
+ * Unknown asset, rule, tenant or route (404)
+ */
+export class NotFoundError extends ApiError {
+  constructor(message: string) {
+    super(404, 'NOT_FOUND', message);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Change conflicting with the current state, e.g. a stale version (409)
+ */
+export class ConflictError extends ApiError {
+  constructor(message: string, details: unknown = null) {
+    super(409, 'CONFLICT', message, details);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * A service the request depends on, such as the database, is down (503)
+ */
+export class ServiceUnavailableError extends ApiError {
+  constructor(message: string) {
+    super(503, 'SERVICE_UNAVAILABLE', message);
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+// Errors of postgres.js and the network when the database cannot be reached
+const CONNECTION_ERROR_CODES = new Set([
+  'CONNECT_TIMEOUT',
+  'CONNECTION_CLOSED',
+  'CONNECTION_ENDED',
+  'CONNECTION_DESTROYED',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+]);
+
+/**
+ * Whether an error means the database is unavailable rather than the query
+ * wrong: no connection, or a server that is shutting down, starting up or out
+ * of connections (SQLSTATE classes 08 and 53, 57P01-57P03)
+ */
+export function isDatabaseUnavailable(error: unknown) {
+  if (error instanceof postgres.PostgresError) {
+    return /^(08|53|57P0[1-3])/.test(error.code);
+  }
+
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && CONNECTION_ERROR_CODES.has(code);
+}
+
+/**
+ * The ApiError to answer for an error a handler caught
+ * ApiErrors are kept; an unreachable database answers 503, unique violations
+ * 409 and invalid values (SQLSTATE class 22) 400. Anything else is logged and
+ * answers 500 with the given message, e.g. "Failed to fetch assets".
+ */
+export function toApiError(error: unknown, message: string): ApiError {
+  if (error instanceof ApiError) return error;
+
+  if (isDatabaseUnavailable(error)) {
+    console.error(`❌ ${message}, database unavailable:`, error);
+    return new ServiceUnavailableError('The database is unavailable, try again later');
+  }
+
+  if (error instanceof postgres.PostgresError) {
+    if (error.code === '23505') {
+      return new ConflictError('Conflicts with an existing record', { constraint: error.constraint_name });
+    }
+
+    if (error.code.startsWith('22')) {
+      return new ValidationError('The request contains an invalid value', [{ message: error.message }]);
+    }
+  }
+
+  console.error(`❌ ${message}:`, error);
+  return new ApiError(500, 'INTERNAL_ERROR', message);
+}
+
+const VALIDATION_TARGETS: Record<string, string> = {
+  body: 'request body',
+  query: 'query parameters',
+  params: 'path parameters',
+  headers: 'headers',
+  cookie: 'cookies',
+};
+
+/**
+ * Elysia plugin answering every error with an error body
+ * Mount it first: it also gives each request its X-Request-ID.
+ */
+export const errorHandling = new Elysia({ name: 'error-handling' })
+  .onRequest(({ request, set }) => {
+    const requested = request.headers.get(REQUEST_ID_HEADER)?.trim();
+    set.headers[REQUEST_ID_HEADER] = requested && REQUEST_ID_PATTERN.test(requested) ? requested : randomUUID();
+  })
+  .onError({ as: 'global' }, ({ code, error, set }) => {
+    let apiError: ApiError;
+
+    if (error instanceof ApiError) {
+      apiError = error;
+    } else if (code === 'VALIDATION' && error.type !== 'response') {
+      const details = error.all.map(
+        (issue): FieldError =>
+          'path' in issue
+            ? { field: issue.path || '/', message: issue.message }
+            : { message: issue.summary ?? 'Invalid value' }
+      );
+      apiError = new ValidationError(`Invalid ${VALIDATION_TARGETS[error.type] ?? error.type}`, details);
+    } else if (code === 'PARSE') {
+      apiError = new ValidationError('Malformed request body');
+    } else if (code === 'NOT_FOUND') {
+      apiError = new NotFoundError('Not found');
+    } else {
+      apiError = toApiError(
+        error,
+        process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : 'Internal server error'
+      );
+    }
+
+    const requestId = String(set.headers[REQUEST_ID_HEADER] ?? '');
+    if (apiError.status >= 500) {
+      console.error(`❌ Request ${requestId} answered ${apiError.status} ${apiError.code}`);
+    }
+
+    const body: ApiErrorBody = {
+      error: {
+        code: apiError.code,
+        message: apiError.message,
+        details: apiError.details,
+        requestId,
+      },
+    };
+
+    set.status = apiError.status;
+    return body;
+  });
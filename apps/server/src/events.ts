@@ -0,0 +1,30 @@
+import { EventEmitter } from 'events';
+import type { AssetOperation, AssetType } from './types';
+
+/**
+ * A committed change to an asset
+ */
+export interface AssetChange {
+  id: string;
+  tenant: string;
+  type: AssetType;
+  operation: AssetOperation;
+}
+
+/**
+ * In-process bus of asset changes
+ * The routes and ingestion paths emit after every committed write, and the
+ * engines that react to changes (geofencing, ...) subscribe to it.
+ */
+class AssetEvents extends EventEmitter {
+  constructor() {
+    super();
+    this.setMaxListeners(50);
+  }
+}
+
+export const assetEvents = new AssetEvents();
+
+export function emitAssetChange(change: AssetChange) {
+  assetEvents.emit('change', change);
+}
@@ -0,0 +1,385 @@
+import * as shpwrite from '@mapbox/shp-write';
+import JSZip from 'jszip';
+import { sql } from './db';
+import { assetConditions, assetSource, whereClause } from './filters';
+import type { AssetQueryParams, ExportFormat } from './types';
+
+/**
+ * Asset row as loaded for export
+ */
+interface ExportRow {
+  id: string;
+  name: string;
+  type: string;
+  status: string;
+  geometry: { type: string; coordinates: any };
+  wkt: string;
+  properties: Record<string, any>;
+  created_at: Date | null;
+  updated_at: Date | null;
+}
+
+/**
+ * Serialized export ready to be sent as a download
+ */
+export interface ExportFile {
+  body: string | ArrayBuffer;
+  contentType: string;
+  filename: string;
+}
+
+/**
+ * Load the tenant's assets matching the usual type/status/bbox filters
+ */
+async function loadRows(tenant: string, params: AssetQueryParams, asOf?: Date) {
+  const conditions = assetConditions(tenant, params, asOf);
+
+  return sql<ExportRow[]>`
+    SELECT
+      id,
+      name,
+      type,
+      status,
+      ST_AsGeoJSON(geometry)::jsonb as geometry,
+      ST_AsText(geometry) as wkt,
+      COALESCE(properties, '{}'::jsonb) as properties,
+      created_at,
+      updated_at
+    FROM ${assetSource(asOf)}
+    WHERE ${whereClause(conditions)}
+    ORDER BY type, name, id
+  `;
+}
+
+/**
+ * Render a property value as plain text
+ */
+const stringifyValue = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const toIsoString = (date: Date | null) => (date ? date.toISOString() : '');
+
+const escapeXml = (value: unknown) =>
+  stringifyValue(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const escapeCsv = (value: unknown) => {
+  const text = stringifyValue(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Standard asset attributes followed by the custom properties
+ */
+const attributes = (row: ExportRow): Record<string, unknown> => ({
+  id: row.id,
+  name: row.name,
+  type: row.type,
+  status: row.status,
+  created_at: toIsoString(row.created_at),
+  updated_at: toIsoString(row.updated_at),
+  ...row.properties,
+});
+
+/**
+ * KML coordinates are "lon,lat" tuples separated by spaces
+ */
+const kmlCoordinates = (positions: number[][]) =>
+  `<coordinates>${positions.map((p) => `${p[0]},${p[1]}`).join(' ')}</coordinates>`;
+
+const kmlPolygon = (rings: number[][][]) => {
+  const [outer, ...inner] = rings;
+  return [
+    '<Polygon>',
+    `<outerBoundaryIs><LinearRing>${kmlCoordinates(outer)}</LinearRing></outerBoundaryIs>`,
+    ...inner.map((ring) => `<innerBoundaryIs><LinearRing>${kmlCoordinates(ring)}</LinearRing></innerBoundaryIs>`),
+    '</Polygon>',
+  ].join('');
+};
+
+const kmlGeometry = ({ type, coordinates }: ExportRow['geometry']): string => {
+  switch (type) {
+    case 'Point':
+      return `<Point>${kmlCoordinates([coordinates])}</Point>`;
+    case 'LineString':
+      return `<LineString>${kmlCoordinates(coordinates)}</LineString>`;
+    case 'Polygon':
+      return kmlPolygon(coordinates);
+    case 'MultiPoint':
+      return `<MultiGeometry>${coordinates.map((c: number[]) => `<Point>${kmlCoordinates([c])}</Point>`).join('')}</MultiGeometry>`;
+    case 'MultiLineString':
+      return `<MultiGeometry>${coordinates.map((c: number[][]) => `<LineString>${kmlCoordinates(c)}</LineString>`).join('')}</MultiGeometry>`;
+    case 'MultiPolygon':
+      return `<MultiGeometry>${coordinates.map(kmlPolygon).join('')}</MultiGeometry>`;
+    default:
+      return '';
+  }
+};
+
+/**
+ * KML (Google Earth) - properties become ExtendedData
+ */
+function toKML(rows: ExportRow[]): string {
+  const placemarks = rows.map((row) => {
+    const data = Object.entries(attributes(row))
+      .map(([key, value]) => `<Data name="${escapeXml(key)}"><value>${escapeXml(value)}</value></Data>`)
+      .join('');
+
+    return [
+      `<Placemark id="${escapeXml(row.id)}">`,
+      `<name>${escapeXml(row.name)}</name>`,
+      `<ExtendedData>${data}</ExtendedData>`,
+      kmlGeometry(row.geometry),
+      '</Placemark>',
+    ].join('');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    '<name>Assets</name>',
+    ...placemarks,
+    '</Document>',
+    '</kml>',
+  ].join('\n');
+}
+
+/**
+ * GPX extensions must live outside the GPX namespace
+ */
+const GPX_EXTENSION_NS = 'urn:geospatial-dashboard:gpx';
+
+const gpxExtensions = (row: ExportRow) =>
+  `<extensions>${Object.entries(attributes(row))
+    .map(([key, value]) => `<asset:property name="${escapeXml(key)}">${escapeXml(value)}</asset:property>`)
+    .join('')}</extensions>`;
+
+const gpxSegment = (positions: number[][]) =>
+  `<trkseg>${positions.map((p) => `<trkpt lat="${p[1]}" lon="${p[0]}"/>`).join('')}</trkseg>`;
+
+/**
+ * GPX (handheld GPS) - points become waypoints, everything else becomes a track
+ * whose segments are the lines or polygon rings. Properties go into extensions.
+ */
+function toGPX(rows: ExportRow[]): string {
+  const waypoints: string[] = [];
+  const tracks: string[] = [];
+
+  rows.forEach((row) => {
+    const { type, coordinates } = row.geometry;
+    const meta = `<name>${escapeXml(row.name)}</name><type>${escapeXml(row.type)}</type>`;
+
+    if (type === 'Point' || type === 'MultiPoint') {
+      const points: number[][] = type === 'Point' ? [coordinates] : coordinates;
+      points.forEach((p) => {
+        waypoints.push(`<wpt lat="${p[1]}" lon="${p[0]}">${meta}${gpxExtensions(row)}</wpt>`);
+      });
+      return;
+    }
+
+    let segments: number[][][] = [];
+    if (type === 'LineString') segments = [coordinates];
+    if (type === 'MultiLineString' || type === 'Polygon') segments = coordinates;
+    if (type === 'MultiPolygon') segments = coordinates.flat();
+
+    tracks.push(`<trk>${meta}${gpxExtensions(row)}${segments.map(gpxSegment).join('')}</trk>`);
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="geospatial-dashboard" xmlns="http://www.topografix.com/GPX/1/1" xmlns:asset="${GPX_EXTENSION_NS}">`,
+    ...waypoints,
+    ...tracks,
+    '</gpx>',
+  ].join('\n');
+}
+
+/**
+ * CSV with WKT geometry - one column per property key
+ */
+function toCSV(rows: ExportRow[]): string {
+  const propertyKeys = Array.from(new Set(rows.flatMap((row) => Object.keys(row.properties)))).sort();
+  const header = ['id', 'name', 'type', 'status', 'created_at', 'updated_at', 'wkt', ...propertyKeys];
+
+  const lines = rows.map((row) =>
+    [
+      row.id,
+      row.name,
+      row.type,
+      row.status,
+      toIsoString(row.created_at),
+      toIsoString(row.updated_at),
+      row.wkt,
+      ...propertyKeys.map((key) => row.properties[key]),
+    ]
+      .map(escapeCsv)
+      .join(',')
+  );
+
+  return [header.join(','), ...lines].join('\r\n');
+}
+
+/**
+ * Shapefile layers: the shape type and file name of each geometry family
+ */
+const SHAPEFILE_LAYERS = {
+  point: { shapeType: 'POINT', filename: 'asset_points' },
+  polyline: { shapeType: 'POLYLINE', filename: 'asset_lines' },
+  polygon: { shapeType: 'POLYGON', filename: 'asset_polygons' },
+} as const;
+
+type ShapefileFamily = keyof typeof SHAPEFILE_LAYERS;
+
+const WGS84_PRJ =
+  'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137,298.257223563]],' +
+  'PRIMEM["Greenwich",0],UNIT["Degree",0.017453292519943295]]';
+
+// DBF field names are at most 10 characters
+const DBF_FIELD_LENGTH = 10;
+
+/**
+ * DBF field name of every attribute key
+ * Keys are reduced to 10 ASCII letters, digits and underscores; names that
+ * would collide (case-insensitively) get a numeric suffix, e.g. speed_limi
+ * and speed_lim1.
+ */
+function dbfFieldNames(keys: string[]): Map<string, string> {
+  const names = new Map<string, string>();
+  const taken = new Set<string>();
+
+  keys.forEach((key) => {
+    const base = key.replace(/[^A-Za-z0-9_]/g, '_').slice(0, DBF_FIELD_LENGTH) || 'field';
+    let name = base;
+
+    for (let suffix = 1; taken.has(name.toLowerCase()); suffix++) {
+      name = base.slice(0, DBF_FIELD_LENGTH - String(suffix).length) + suffix;
+    }
+
+    taken.add(name.toLowerCase());
+    names.set(key, name);
+  });
+
+  return names;
+}
+
+/**
+ * Twice the signed area of a ring, positive when it is counter-clockwise
+ */
+const ringArea = (ring: number[][]) =>
+  ring.reduce((sum, [x1, y1], i) => {
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    return sum + x1 * y2 - x2 * y1;
+  }, 0);
+
+/**
+ * Rings of a GeoJSON polygon wound as Shapefiles expect them: the outer ring
+ * clockwise and holes counter-clockwise (the reverse of GeoJSON)
+ */
+const shapefileRings = (rings: number[][][]) =>
+  rings.map((ring, i) => {
+    const clockwise = ringArea(ring) < 0;
+    return clockwise === (i === 0) ? ring : [...ring].reverse();
+  });
+
+/**
+ * Write the .shp, .shx and .dbf files of one layer
+ */
+const writeLayer = (records: Record<string, string>[], family: ShapefileFamily, geometries: unknown[]) =>
+  new Promise<{ shp: DataView<ArrayBuffer>; shx: DataView<ArrayBuffer>; dbf: DataView<ArrayBuffer> }>((resolve, reject) => {
+    shpwrite.write(records, SHAPEFILE_LAYERS[family].shapeType, geometries as object[], (error, files) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(files);
+      }
+    });
+  });
+
+/**
+ * Zipped Shapefile - one layer per geometry family, properties become DBF
+ * fields (nested values are stored as JSON text)
+ *
+ * Multi-part lines and polygons become one multi-part record; the points of a
+ * MultiPoint become one record each, since MULTIPOINT is not written. Field
+ * names are shortened to fit DBF, and fields.csv maps them back to the
+ * attribute keys.
+ */
+async function toShapefile(rows: ExportRow[]): Promise<ArrayBuffer> {
+  const layers: Record<ShapefileFamily, { records: Record<string, string>[]; geometries: unknown[] }> = {
+    point: { records: [], geometries: [] },
+    polyline: { records: [], geometries: [] },
+    polygon: { records: [], geometries: [] },
+  };
+
+  const fieldNames = dbfFieldNames([...new Set(rows.flatMap((row) => Object.keys(attributes(row))))]);
+
+  rows.forEach((row) => {
+    const { type, coordinates } = row.geometry;
+    const record = Object.fromEntries(
+      Object.entries(attributes(row)).map(([key, value]) => [fieldNames.get(key)!, stringifyValue(value)])
+    );
+    const add = (family: ShapefileFamily, geometry: unknown) => {
+      layers[family].records.push(record);
+      layers[family].geometries.push(geometry);
+    };
+
+    // Line and polygon records are lists of parts (lines or rings)
+    if (type === 'Point') add('point', coordinates);
+    if (type === 'MultiPoint') coordinates.forEach((point: number[]) => add('point', point));
+    if (type === 'LineString') add('polyline', [coordinates]);
+    if (type === 'MultiLineString') add('polyline', coordinates);
+    if (type === 'Polygon') add('polygon', shapefileRings(coordinates));
+    if (type === 'MultiPolygon') add('polygon', coordinates.flatMap(shapefileRings));
+  });
+
+  const zip = new JSZip();
+  const folder = zip.folder('assets')!;
+
+  for (const family of Object.keys(layers) as ShapefileFamily[]) {
+    const { records, geometries } = layers[family];
+    if (geometries.length === 0) continue;
+
+    const { filename } = SHAPEFILE_LAYERS[family];
+    const files = await writeLayer(records, family, geometries);
+
+    folder.file(`${filename}.shp`, files.shp.buffer, { binary: true });
+    folder.file(`${filename}.shx`, files.shx.buffer, { binary: true });
+    folder.file(`${filename}.dbf`, files.dbf.buffer, { binary: true });
+    folder.file(`${filename}.prj`, WGS84_PRJ);
+  }
+
+  const mapping = [...fieldNames].map(([key, name]) => `${escapeCsv(name)},${escapeCsv(key)}`);
+  folder.file('fields.csv', ['field,attribute', ...mapping].join('\r\n'));
+
+  return zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' });
+}
+
+/**
+ * Export the tenant's assets matching the filters in the requested format
+ */
+export async function exportAssets(
+  format: ExportFormat,
+  tenant: string,
+  params: AssetQueryParams,
+  asOf?: Date
+): Promise<ExportFile> {
+  const rows = await loadRows(tenant, params, asOf);
+
+  switch (format) {
+    case 'kml':
+      return { body: toKML(rows), contentType: 'application/vnd.google-earth.kml+xml', filename: 'assets.kml' };
+    case 'gpx':
+      return { body: toGPX(rows), contentType: 'application/gpx+xml', filename: 'assets.gpx' };
+    case 'csv':
+      return { body: toCSV(rows), contentType: 'text/csv; charset=utf-8', filename: 'assets.csv' };
+    case 'shp':
+      return { body: await toShapefile(rows), contentType: 'application/zip', filename: 'assets.zip' };
+  }
+}
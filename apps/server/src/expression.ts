@@ -0,0 +1,463 @@
+import type postgres from 'postgres';
+import { sql } from './db';
+
+/**
+ * Filter expression language for asset queries
+ *
+ * Examples:
+ *   properties.speed > 50 AND properties.sirens = true
+ *   name ILIKE 'Patrol%'
+ *   properties.unit_id IN ('P-001', 'P-002')
+ *   NOT (status = 'inactive' OR properties.driver IS NULL)
+ *
+ * Fields are the asset columns (id, name, type, status, created_at,
+ * updated_at) or properties.<key>[.<key>...] for the JSONB properties.
+ * Values are 'single quoted' strings, numbers, true, false and null.
+ * Expressions are compiled to parameterized SQL - values never end up in
+ * the query text.
+ */
+
+type FilterValue = string | number | boolean | null;
+
+type ComparisonOperator = '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+type FilterField =
+  | { kind: 'column'; name: keyof typeof COLUMNS }
+  | { kind: 'property'; path: string[] };
+
+export type FilterNode =
+  | { type: 'and' | 'or'; left: FilterNode; right: FilterNode }
+  | { type: 'not'; operand: FilterNode }
+  | { type: 'compare'; field: FilterField; operator: ComparisonOperator; value: FilterValue }
+  | { type: 'in'; field: FilterField; values: FilterValue[]; negated: boolean }
+  | { type: 'like'; field: FilterField; pattern: string; caseInsensitive: boolean; negated: boolean }
+  | { type: 'null'; field: FilterField; negated: boolean };
+
+interface Token {
+  type: 'word' | 'string' | 'number' | 'operator' | 'lparen' | 'rparen' | 'comma' | 'end';
+  value: string;
+  position: number;
+}
+
+/**
+ * Thrown for malformed expressions, unknown fields and unknown operators
+ */
+export class FilterSyntaxError extends Error {
+  constructor(message: string, public position?: number) {
+    super(position === undefined ? message : `${message} at position ${position + 1}`);
+    this.name = 'FilterSyntaxError';
+  }
+}
+
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_DEPTH = 32;
+
+/**
+ * Asset columns that can be filtered on, cast so that every comparison and
+ * LIKE works the same on the table and on the asOf history snapshot
+ */
+const COLUMNS = {
+  id: { sql: () => sql`id::text`, kind: 'text' },
+  name: { sql: () => sql`name`, kind: 'text' },
+  type: { sql: () => sql`type::text`, kind: 'text' },
+  status: { sql: () => sql`status::text`, kind: 'text' },
+  created_at: { sql: () => sql`created_at`, kind: 'timestamp' },
+  updated_at: { sql: () => sql`updated_at`, kind: 'timestamp' },
+} as const;
+
+const COMPARISON_OPERATORS = ['=', '!=', '<>', '>', '>=', '<', '<='];
+const PROPERTY_KEY = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ type: char === '(' ? 'lparen' : char === ')' ? 'rparen' : 'comma', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    // 'string' with '' as an escaped quote
+    if (char === "'") {
+      let value = '';
+      let j = i + 1;
+      for (;;) {
+        if (j >= input.length) throw new FilterSyntaxError('Unterminated string', i);
+        if (input[j] === "'") {
+          if (input[j + 1] === "'") {
+            value += "'";
+            j += 2;
+            continue;
+          }
+          break;
+        }
+        value += input[j++];
+      }
+      tokens.push({ type: 'string', value, position: i });
+      i = j + 1;
+      continue;
+    }
+
+    const number = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(input.slice(i));
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const word = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z0-9_-]+)*/.exec(input.slice(i));
+    if (word) {
+      tokens.push({ type: 'word', value: word[0], position: i });
+      i += word[0].length;
+      continue;
+    }
+
+    // Take the whole run of symbol characters so "==" or "=>" is reported as is
+    const symbol = /^[^\sA-Za-z0-9_'(),]+/.exec(input.slice(i))![0];
+    if (!COMPARISON_OPERATORS.includes(symbol)) {
+      throw new FilterSyntaxError(`Unknown operator "${symbol}"`, i);
+    }
+    tokens.push({ type: 'operator', value: symbol, position: i });
+    i += symbol.length;
+  }
+
+  tokens.push({ type: 'end', value: '', position: input.length });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser
+ *
+ *   or         := and (OR and)*
+ *   and        := not (AND not)*
+ *   not        := NOT not | primary
+ *   primary    := '(' or ')' | comparison
+ *   comparison := field (op value | [NOT] IN '(' values ')' | [NOT] [I]LIKE string | IS [NOT] NULL)
+ */
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): FilterNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new FilterSyntaxError(`Unexpected "${token.value}"`, token.position);
+    }
+    return node;
+  }
+
+  private peek() {
+    return this.tokens[this.index];
+  }
+
+  private next() {
+    return this.tokens[this.index++];
+  }
+
+  private isKeyword(keyword: string) {
+    const token = this.peek();
+    return token.type === 'word' && token.value.toUpperCase() === keyword;
+  }
+
+  private expectKeyword(keyword: string) {
+    if (!this.isKeyword(keyword)) {
+      const token = this.peek();
+      throw new FilterSyntaxError(`Expected ${keyword} but found "${token.value || 'end of input'}"`, token.position);
+    }
+    this.index++;
+  }
+
+  private expect(type: Token['type'], description: string) {
+    const token = this.next();
+    if (token.type !== type) {
+      throw new FilterSyntaxError(`Expected ${description} but found "${token.value || 'end of input'}"`, token.position);
+    }
+    return token;
+  }
+
+  private parseOr(): FilterNode {
+    let left = this.parseAnd();
+    while (this.isKeyword('OR')) {
+      this.index++;
+      left = { type: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): FilterNode {
+    let left = this.parseNot();
+    while (this.isKeyword('AND')) {
+      this.index++;
+      left = { type: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): FilterNode {
+    if (++this.depth > MAX_DEPTH) {
+      throw new FilterSyntaxError('Expression is nested too deeply', this.peek().position);
+    }
+
+    let node: FilterNode;
+    if (this.isKeyword('NOT')) {
+      this.index++;
+      node = { type: 'not', operand: this.parseNot() };
+    } else if (this.peek().type === 'lparen') {
+      this.index++;
+      node = this.parseOr();
+      this.expect('rparen', '")"');
+    } else {
+      node = this.parseComparison();
+    }
+
+    this.depth--;
+    return node;
+  }
+
+  private parseField(): FilterField {
+    const token = this.expect('word', 'a field name');
+    const [head, ...path] = token.value.split('.');
+
+    if (head === 'properties' && path.length > 0) {
+      if (!path.every((key) => PROPERTY_KEY.test(key))) {
+        throw new FilterSyntaxError(`Invalid property path "${token.value}"`, token.position);
+      }
+      return { kind: 'property', path };
+    }
+
+    if (path.length === 0 && Object.prototype.hasOwnProperty.call(COLUMNS, head)) {
+      return { kind: 'column', name: head as keyof typeof COLUMNS };
+    }
+
+    throw new FilterSyntaxError(
+      `Unknown field "${token.value}" (expected ${Object.keys(COLUMNS).join(', ')} or properties.<key>)`,
+      token.position
+    );
+  }
+
+  private parseValue(): FilterValue {
+    const token = this.next();
+
+    if (token.type === 'string') return token.value;
+    if (token.type === 'number') return Number(token.value);
+    if (token.type === 'word') {
+      const keyword = token.value.toUpperCase();
+      if (keyword === 'TRUE') return true;
+      if (keyword === 'FALSE') return false;
+      if (keyword === 'NULL') return null;
+    }
+
+    throw new FilterSyntaxError(`Expected a value but found "${token.value || 'end of input'}"`, token.position);
+  }
+
+  private parseComparison(): FilterNode {
+    const field = this.parseField();
+    const token = this.peek();
+
+    if (token.type === 'operator') {
+      this.index++;
+      const operator = (token.value === '<>' ? '!=' : token.value) as ComparisonOperator;
+      return { type: 'compare', field, operator, value: this.parseValue() };
+    }
+
+    if (this.isKeyword('IS')) {
+      this.index++;
+      const negated = this.isKeyword('NOT');
+      if (negated) this.index++;
+      this.expectKeyword('NULL');
+      return { type: 'null', field, negated };
+    }
+
+    const negated = this.isKeyword('NOT');
+    if (negated) this.index++;
+
+    if (this.isKeyword('IN')) {
+      this.index++;
+      this.expect('lparen', '"("');
+      const values = [this.parseValue()];
+      while (this.peek().type === 'comma') {
+        this.index++;
+        values.push(this.parseValue());
+      }
+      this.expect('rparen', '")"');
+      return { type: 'in', field, values, negated };
+    }
+
+    if (this.isKeyword('LIKE') || this.isKeyword('ILIKE')) {
+      const caseInsensitive = this.next().value.toUpperCase() === 'ILIKE';
+      const pattern = this.expect('string', 'a quoted pattern');
+      return { type: 'like', field, pattern: pattern.value, caseInsensitive, negated };
+    }
+
+    const operator = this.peek();
+    if (operator.type === 'end') {
+      throw new FilterSyntaxError('Expected an operator but found end of input', operator.position);
+    }
+    throw new FilterSyntaxError(
+      `Unknown operator "${operator.value}" (expected =, !=, <>, >, >=, <, <=, IN, NOT IN, LIKE, ILIKE, IS NULL or IS NOT NULL)`,
+      operator.position
+    );
+  }
+}
+
+/**
+ * Parse a filter expression into its syntax tree
+ */
+export function parseFilter(input: string): FilterNode {
+  if (input.length > MAX_EXPRESSION_LENGTH) {
+    throw new FilterSyntaxError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+  if (input.trim().length === 0) {
+    throw new FilterSyntaxError('Expression is empty');
+  }
+
+  return new Parser(tokenize(input)).parse();
+}
+
+/**
+ * JSONB path literal for the #> and #>> operators
+ */
+const jsonPath = (path: string[]) => `{${path.join(',')}}`;
+
+/**
+ * Nested object {a: {b: value}} for a containment (@>) test
+ */
+const containment = (path: string[], value: FilterValue) =>
+  path.reduceRight<unknown>((acc, key) => ({ [key]: acc }), value);
+
+function compileColumnComparison(
+  name: keyof typeof COLUMNS,
+  operator: ComparisonOperator,
+  value: FilterValue
+): postgres.PendingQuery<postgres.Row[]> {
+  const column = COLUMNS[name];
+
+  if (value === null) {
+    throw new FilterSyntaxError(`Use IS NULL or IS NOT NULL to compare ${name} with null`);
+  }
+  if (typeof value !== 'string') {
+    throw new FilterSyntaxError(`${name} can only be compared with a quoted string`);
+  }
+  if (column.kind === 'timestamp' && Number.isNaN(new Date(value).getTime())) {
+    throw new FilterSyntaxError(`${name} must be compared with an ISO 8601 timestamp`);
+  }
+
+  const operand = column.kind === 'timestamp' ? sql`${value}::timestamptz` : sql`${value}`;
+  return sql`${column.sql()} ${sql.unsafe(operator === '!=' ? '<>' : operator)} ${operand}`;
+}
+
+function compilePropertyComparison(
+  path: string[],
+  operator: ComparisonOperator,
+  value: FilterValue
+): postgres.PendingQuery<postgres.Row[]> {
+  const target = sql`properties #> ${jsonPath(path)}::text[]`;
+
+  if (value === null) {
+    throw new FilterSyntaxError(`Use IS NULL or IS NOT NULL to compare properties.${path.join('.')} with null`);
+  }
+
+  // Equality is a containment test so the GIN index on properties is used
+  if (operator === '=') {
+    return sql`properties @> ${JSON.stringify(containment(path, value))}::jsonb`;
+  }
+
+  if (operator === '!=') {
+    return sql`${target} <> ${JSON.stringify(value)}::jsonb`;
+  }
+
+  const op = sql.unsafe(operator);
+
+  if (typeof value === 'number') {
+    // Only numeric JSON values take part in numeric comparisons
+    return sql`
+      CASE WHEN jsonb_typeof(${target}) = 'number'
+        THEN (properties #>> ${jsonPath(path)}::text[])::numeric
+      END ${op} ${value}
+    `;
+  }
+
+  if (typeof value === 'string') {
+    return sql`
+      CASE WHEN jsonb_typeof(${target}) = 'string'
+        THEN properties #>> ${jsonPath(path)}::text[]
+      END ${op} ${value}
+    `;
+  }
+
+  throw new FilterSyntaxError(`Operator ${operator} needs a number or a string`);
+}
+
+function compileField(field: FilterField) {
+  return field.kind === 'column'
+    ? COLUMNS[field.name].sql()
+    : sql`properties #>> ${jsonPath(field.path)}::text[]`;
+}
+
+/**
+ * Compile a syntax tree into a parameterized SQL condition
+ */
+export function compileFilter(node: FilterNode): postgres.PendingQuery<postgres.Row[]> {
+  switch (node.type) {
+    case 'and':
+      return sql`(${compileFilter(node.left)} AND ${compileFilter(node.right)})`;
+
+    case 'or':
+      return sql`(${compileFilter(node.left)} OR ${compileFilter(node.right)})`;
+
+    case 'not':
+      return sql`NOT (${compileFilter(node.operand)})`;
+
+    case 'compare':
+      return node.field.kind === 'column'
+        ? compileColumnComparison(node.field.name, node.operator, node.value)
+        : compilePropertyComparison(node.field.path, node.operator, node.value);
+
+    case 'in': {
+      const { field } = node;
+      const conditions = node.values.map((value) =>
+        field.kind === 'column'
+          ? compileColumnComparison(field.name, '=', value)
+          : compilePropertyComparison(field.path, '=', value)
+      );
+      const any = conditions.reduce((acc, condition) => sql`${acc} OR ${condition}`);
+      return node.negated ? sql`NOT (${any})` : sql`(${any})`;
+    }
+
+    case 'like': {
+      const op = sql.unsafe(`${node.negated ? 'NOT ' : ''}${node.caseInsensitive ? 'ILIKE' : 'LIKE'}`);
+      return sql`${compileField(node.field)} ${op} ${node.pattern}`;
+    }
+
+    case 'null': {
+      const isNull =
+        node.field.kind === 'column'
+          ? sql`${COLUMNS[node.field.name].sql()} IS NULL`
+          : sql`COALESCE(jsonb_typeof(properties #> ${jsonPath(node.field.path)}::text[]), 'null') = 'null'`;
+      return node.negated ? sql`NOT (${isNull})` : isNull;
+    }
+  }
+}
+
+/**
+ * Parse and compile a filter expression
+ * Throws FilterSyntaxError when the expression is invalid
+ */
+export function filterCondition(input: string) {
+  return compileFilter(parseFilter(input));
+}
@@ -0,0 +1,184 @@
+import type postgres from 'postgres';
+import { sql } from './db';
+import type { AssetQueryParams, SpatialPredicate } from './types';
+
+/**
+ * Parse the asOf query parameter
+ * Returns null when the value is not a valid ISO 8601 timestamp
+ */
+export function parseAsOf(value: string): Date | null {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Keyset position of an asset in the (updated_at, id) ordering
+ */
+export interface AssetCursor {
+  updatedAt: string;
+  id: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Encode a keyset cursor as an opaque URL-safe string
+ * updatedAt is kept as PostgreSQL text so no microseconds are lost
+ */
+export function encodeCursor(cursor: AssetCursor): string {
+  return Buffer.from(JSON.stringify([cursor.updatedAt, cursor.id])).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor
+ * Returns null when the value is malformed
+ */
+export function decodeCursor(value: string): AssetCursor | null {
+  try {
+    const [updatedAt, id] = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+
+    if (typeof updatedAt !== 'string' || parseAsOf(updatedAt) === null) return null;
+    if (typeof id !== 'string' || !UUID_PATTERN.test(id)) return null;
+
+    return { updatedAt, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Condition selecting the assets after a cursor in the (updated_at, id) ordering
+ */
+export function afterCursor({ updatedAt, id }: AssetCursor) {
+  return sql`(updated_at, id) > (${updatedAt}::timestamptz, ${id}::uuid)`;
+}
+
+/**
+ * Row source for asset queries
+ *
+ * Without asOf this is the assets table itself. With asOf it is the latest
+ * version of every asset recorded in asset_history at that moment, exposed
+ * with the same column names so the filters below apply unchanged.
+ */
+export function assetSource(asOf?: Date) {
+  if (!asOf) {
+    return sql`assets`;
+  }
+
+  return sql`(
+    SELECT DISTINCT ON (h.asset_id)
+      h.asset_id as id,
+      h.tenant_id,
+      h.new_name as name,
+      h.new_type as type,
+      h.new_status as status,
+      h.new_geometry as geometry,
+      h.new_properties as properties,
+      h.operation,
+      (
+        SELECT c.changed_at
+        FROM asset_history c
+        WHERE c.asset_id = h.asset_id AND c.version = 1
+      ) as created_at,
+      h.changed_at as updated_at,
+      h.version
+    FROM asset_history h
+    WHERE h.changed_at <= ${asOf}
+    ORDER BY h.asset_id, h.version DESC
+  ) assets`;
+}
+
+/**
+ * Build the WHERE conditions for the type/status/bbox filters
+ * The first condition excludes deleted assets (at asOf when given), the
+ * second the assets of other tenants
+ */
+export function assetConditions(
+  tenant: string,
+  { type, status, bbox }: Pick<AssetQueryParams, 'type' | 'status' | 'bbox'>,
+  asOf?: Date
+): postgres.PendingQuery<postgres.Row[]>[] {
+  const conditions = [asOf ? sql`operation <> 'delete'` : sql`deleted_at IS NULL`, sql`tenant_id = ${tenant}`];
+
+  if (type) {
+    conditions.push(sql`type = ${type}`);
+  }
+
+  if (status) {
+    conditions.push(sql`status = ${status}`);
+  }
+
+  if (bbox) {
+    const [minLon, minLat, maxLon, maxLat] = bbox.split(',').map(Number);
+    if (minLon && minLat && maxLon && maxLat) {
+      conditions.push(sql`
+        ST_Within(
+          geometry,
+          ST_MakeEnvelope(${minLon}, ${minLat}, ${maxLon}, ${maxLat}, 4326)
+        )
+      `);
+    }
+  }
+
+  return conditions;
+}
+
+/**
+ * Spatial predicate between the asset geometry and a GeoJSON geometry
+ *
+ * - intersects: the asset touches the shape
+ * - within: the asset lies completely inside the shape
+ * - contains: the asset completely contains the shape
+ * - dwithin: the asset is within distance metres of the shape (geodesic)
+ */
+export function spatialCondition(predicate: SpatialPredicate, geometry: object, distance = 0) {
+  const shape = sql`ST_SetSRID(ST_GeomFromGeoJSON(${JSON.stringify(geometry)}), 4326)`;
+
+  switch (predicate) {
+    case 'intersects':
+      return sql`ST_Intersects(geometry, ${shape})`;
+    case 'within':
+      return sql`ST_Within(geometry, ${shape})`;
+    case 'contains':
+      return sql`ST_Contains(geometry, ${shape})`;
+    case 'dwithin':
+      // The bounding box test lets idx_assets_geometry narrow the candidates
+      return sql`
+        geometry && ST_Buffer(${shape}::geography, ${distance})::geometry
+        AND ST_DWithin(geometry::geography, ${shape}::geography, ${distance})
+      `;
+  }
+}
+
+/**
+ * GeoJSON Feature of the current asset row
+ * Same shape as the features of the assets_geojson view
+ */
+export function assetFeature() {
+  return sql`
+    jsonb_build_object(
+      'type', 'Feature',
+      'id', id,
+      'geometry', ST_AsGeoJSON(geometry)::jsonb,
+      'properties', jsonb_build_object(
+        'id', id,
+        'name', name,
+        'type', type,
+        'status', status,
+        'created_at', created_at,
+        'updated_at', updated_at,
+        'version', version
+      ) || COALESCE(properties, '{}'::jsonb)
+    )
+  `;
+}
+
+/**
+ * Combine conditions with AND
+ */
+export function whereClause(conditions: postgres.PendingQuery<postgres.Row[]>[]) {
+  return conditions.reduce((acc, condition, i) => {
+    if (i === 0) return condition;
+    return sql`${acc} AND ${condition}`;
+  });
+}
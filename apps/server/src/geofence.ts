@@ -0,0 +1,169 @@
+import { sql } from './db';
+import { assetEvents, type AssetChange } from './events';
+import { notificationCenter } from './notifications';
+import type { NotificationSeverity } from './types';
+
+/**
+ * Geofencing engine
+ *
+ * Every zone asset is a geofence for the vehicles of its tenant unless its
+ * properties opt out with "geofence_enabled": false. Whenever a vehicle
+ * changes, the zones its geometry intersects are compared with the
+ * memberships stored in geofence_memberships and a geofence.enter /
+ * geofence.exit notification is published for every difference.
+ * "geofence_severity" in the zone properties sets the severity of those
+ * notifications (info by default).
+ */
+
+type GeofenceEvent = 'enter' | 'exit';
+
+interface ZoneRow {
+  id: string;
+  name: string;
+  properties: Record<string, any> | null;
+}
+
+export interface GeofenceTransition {
+  event: GeofenceEvent;
+  vehicle: { id: string; name: string; tenant_id: string };
+  zone: ZoneRow;
+}
+
+const SEVERITIES: NotificationSeverity[] = ['info', 'success', 'warning', 'critical'];
+
+/**
+ * Zones that take part in geofencing
+ */
+const activeZone = () => sql`
+  z.type = 'zone'
+  AND z.deleted_at IS NULL
+  AND COALESCE(z.properties->>'geofence_enabled', 'true') <> 'false'
+`;
+
+const zoneSeverity = (zone: ZoneRow): NotificationSeverity => {
+  const severity = zone.properties?.geofence_severity;
+  return SEVERITIES.includes(severity) ? severity : 'info';
+};
+
+/**
+ * Recompute the zone memberships of a vehicle and return the transitions
+ *
+ * Memberships of zones that were deleted or opted out are dropped without an
+ * exit event. A vehicle that was deleted (or is no longer a vehicle) loses
+ * all its memberships the same way.
+ */
+export async function evaluateGeofences(vehicleId: string): Promise<GeofenceTransition[]> {
+  return sql.begin(async (tx) => {
+    // Evaluations of the same vehicle run one after the other
+    await tx`SELECT pg_advisory_xact_lock(hashtext(${vehicleId}))`;
+
+    const [vehicle] = await tx<GeofenceTransition['vehicle'][]>`
+      SELECT id, name, tenant_id
+      FROM assets
+      WHERE id = ${vehicleId} AND type = 'vehicle' AND deleted_at IS NULL
+    `;
+
+    if (!vehicle) {
+      await tx`DELETE FROM geofence_memberships WHERE vehicle_id = ${vehicleId}`;
+      return [];
+    }
+
+    const inside = await tx<ZoneRow[]>`
+      SELECT z.id, z.name, z.properties
+      FROM assets z
+      JOIN assets v ON v.id = ${vehicleId} AND v.tenant_id = z.tenant_id
+      WHERE ${activeZone()}
+        AND ST_Intersects(z.geometry, v.geometry)
+    `;
+
+    const previous = await tx<(ZoneRow & { active: boolean })[]>`
+      SELECT z.id, z.name, z.properties, (${activeZone()}) as active
+      FROM geofence_memberships m
+      JOIN assets z ON z.id = m.zone_id
+      WHERE m.vehicle_id = ${vehicleId}
+    `;
+
+    const insideIds = new Set(inside.map((zone) => zone.id));
+    const previousIds = new Set(previous.map((zone) => zone.id));
+    const transitions: GeofenceTransition[] = [];
+
+    for (const zone of previous) {
+      if (insideIds.has(zone.id)) continue;
+
+      await tx`
+        DELETE FROM geofence_memberships
+        WHERE vehicle_id = ${vehicleId} AND zone_id = ${zone.id}
+      `;
+
+      if (zone.active) {
+        transitions.push({ event: 'exit', vehicle, zone });
+      }
+    }
+
+    for (const zone of inside) {
+      if (previousIds.has(zone.id)) continue;
+
+      await tx`
+        INSERT INTO geofence_memberships (vehicle_id, zone_id)
+        VALUES (${vehicleId}, ${zone.id})
+        ON CONFLICT DO NOTHING
+      `;
+
+      transitions.push({ event: 'enter', vehicle, zone });
+    }
+
+    return transitions;
+  });
+}
+
+/**
+ * Publish a transition through the notification center
+ */
+function publishTransition({ event, vehicle, zone }: GeofenceTransition) {
+  notificationCenter.publish(
+    {
+      tenant: vehicle.tenant_id,
+      type: `geofence.${event}`,
+      title: event === 'enter' ? 'Geofence entered' : 'Geofence exited',
+      message: `${vehicle.name} ${event === 'enter' ? 'entered' : 'left'} ${zone.name}.`,
+      severity: zoneSeverity(zone),
+      data: {
+        event,
+        vehicleId: vehicle.id,
+        vehicleName: vehicle.name,
+        zoneId: zone.id,
+        zoneName: zone.name,
+      },
+    },
+    'system'
+  );
+}
+
+const handleAssetChange = (change: AssetChange) => {
+  // An update may also have turned a vehicle into another type
+  if (change.type !== 'vehicle' && change.operation !== 'update') return;
+
+  evaluateGeofences(change.id)
+    .then((transitions) => transitions.forEach(publishTransition))
+    .catch((error) => {
+      console.error('❌ Error evaluating geofences:', error);
+    });
+};
+
+let geofencingStarted = false;
+
+export function startGeofencing() {
+  if (geofencingStarted) return;
+
+  assetEvents.on('change', handleAssetChange);
+  geofencingStarted = true;
+  console.log('🚧 Geofencing engine started');
+}
+
+export function stopGeofencing() {
+  if (!geofencingStarted) return;
+
+  assetEvents.off('change', handleAssetChange);
+  geofencingStarted = false;
+  console.log('🚧 Geofencing engine stopped');
+}
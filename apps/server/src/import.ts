@@ -0,0 +1,222 @@
+import postgres from 'postgres';
+import { sql } from './db';
+import { toApiError } from './errors';
+import type {
+  AssetStatus,
+  AssetType,
+  ImportedFeature,
+  ImportMode,
+  ImportOptions,
+  ImportReport,
+  RejectedFeature,
+} from './types';
+
+const ASSET_TYPES: AssetType[] = ['vehicle', 'incident', 'poi', 'zone', 'route'];
+const ASSET_STATUSES: AssetStatus[] = ['active', 'inactive', 'warning', 'critical'];
+const GEOMETRY_TYPES = ['Point', 'LineString', 'Polygon', 'MultiPoint', 'MultiLineString', 'MultiPolygon'];
+
+/**
+ * Default property keys read for name/type/status
+ */
+const DEFAULT_MAPPING = {
+  name: 'name',
+  type: 'type',
+  status: 'status',
+};
+
+/**
+ * Asset row produced from a valid feature
+ */
+interface MappedAsset {
+  index: number;
+  featureId?: string | number;
+  name: string;
+  type: AssetType;
+  status: AssetStatus;
+  geometry: Record<string, any>;
+  properties: Record<string, any>;
+}
+
+/**
+ * Thrown inside the transaction to roll back an atomic import
+ */
+class ImportRollback extends Error {}
+
+/**
+ * Map a GeoJSON feature onto an asset, or describe why it was rejected
+ */
+function mapFeature(
+  feature: any,
+  index: number,
+  { mapping, defaults, allowedTypes }: Pick<ImportOptions, 'mapping' | 'defaults' | 'allowedTypes'>
+): MappedAsset | RejectedFeature {
+  const keys = { ...DEFAULT_MAPPING, ...mapping };
+  const featureId = feature?.id;
+
+  if (!feature || typeof feature !== 'object' || feature.type !== 'Feature') {
+    return { index, featureId, reason: 'Not a GeoJSON Feature' };
+  }
+
+  const { geometry } = feature;
+  if (!geometry || !GEOMETRY_TYPES.includes(geometry.type) || !Array.isArray(geometry.coordinates)) {
+    return { index, featureId, field: 'geometry', reason: 'Missing or unsupported geometry' };
+  }
+
+  const properties: Record<string, any> = { ...(feature.properties || {}) };
+  const name = properties[keys.name];
+  const type = properties[keys.type] ?? defaults?.type;
+  const status = properties[keys.status] ?? defaults?.status ?? 'active';
+
+  if (typeof name !== 'string' || name.trim().length === 0 || name.length > 255) {
+    return { index, featureId, field: keys.name, reason: 'Name must be a string of 1-255 characters' };
+  }
+
+  if (!ASSET_TYPES.includes(type)) {
+    return { index, featureId, field: keys.type, reason: `Unknown asset type "${type}"` };
+  }
+
+  if (allowedTypes && !allowedTypes.includes(type)) {
+    return { index, featureId, field: keys.type, reason: `Not allowed to create ${type} assets` };
+  }
+
+  if (!ASSET_STATUSES.includes(status)) {
+    return { index, featureId, field: keys.status, reason: `Unknown asset status "${status}"` };
+  }
+
+  // Everything that wasn't mapped onto a column stays in properties
+  delete properties[keys.name];
+  delete properties[keys.type];
+  delete properties[keys.status];
+
+  return {
+    index,
+    featureId,
+    name: name.trim(),
+    type,
+    status,
+    geometry,
+    properties,
+  };
+}
+
+/**
+ * Whether the database rejected a feature's values: an invalid value (SQLSTATE
+ * class 22) or GeoJSON that PostGIS cannot turn into a geometry, which it
+ * reports as an internal error
+ */
+function isInvalidFeature(error: postgres.PostgresError) {
+  return error.code.startsWith('22') || (error.code === 'XX000' && /geojson|geometry|lwgeom/i.test(error.message));
+}
+
+/**
+ * Describe why the database rejected a feature
+ * Errors unrelated to the feature, such as a lost connection, are rethrown as
+ * API errors and fail the whole import.
+ */
+function rejectInsert(asset: MappedAsset, error: unknown): RejectedFeature {
+  const { index, featureId } = asset;
+
+  if (error instanceof postgres.PostgresError) {
+    if (error.code === '23505') {
+      return {
+        index,
+        featureId,
+        field: 'properties.external_id',
+        reason: 'Conflicts with an existing asset with the same external_id',
+      };
+    }
+
+    if (isInvalidFeature(error)) {
+      return { index, featureId, field: 'geometry', reason: error.message };
+    }
+  }
+
+  throw toApiError(error, 'Failed to import features');
+}
+
+/**
+ * Import a GeoJSON FeatureCollection as assets of a tenant
+ *
+ * Modes:
+ * - atomic: every feature is inserted in one transaction; if any feature is
+ *   rejected nothing is committed
+ * - best_effort: valid features are committed, invalid ones are reported
+ */
+export async function importFeatures(
+  tenant: string,
+  features: any[],
+  options: ImportOptions
+): Promise<ImportReport> {
+  const mode: ImportMode = options.mode || 'atomic';
+  const rejected: RejectedFeature[] = [];
+  const valid: MappedAsset[] = [];
+
+  features.forEach((feature, index) => {
+    const mapped = mapFeature(feature, index, options);
+    if ('reason' in mapped) {
+      rejected.push(mapped);
+    } else {
+      valid.push(mapped);
+    }
+  });
+
+  let created: ImportedFeature[] = [];
+
+  if (valid.length > 0 && (mode === 'best_effort' || rejected.length === 0)) {
+    try {
+      created = await sql.begin(async (tx) => {
+        const inserted: ImportedFeature[] = [];
+
+        for (const asset of valid) {
+          try {
+            // Savepoint per feature so one rejected feature doesn't abort the transaction
+            const [row] = await tx.savepoint(
+              (sp) => sp`
+                INSERT INTO assets (tenant_id, name, type, status, geometry, properties)
+                VALUES (
+                  ${tenant},
+                  ${asset.name},
+                  ${asset.type},
+                  ${asset.status},
+                  ST_SetSRID(ST_GeomFromGeoJSON(${JSON.stringify(asset.geometry)}), 4326),
+                  ${JSON.stringify(asset.properties)}::jsonb
+                )
+                RETURNING id, name, type
+              `
+            );
+
+            inserted.push({
+              index: asset.index,
+              featureId: asset.featureId,
+              id: row.id,
+              name: row.name,
+              type: row.type,
+            });
+          } catch (error) {
+            rejected.push(rejectInsert(asset, error));
+          }
+        }
+
+        if (mode === 'atomic' && rejected.length > 0) {
+          throw new ImportRollback();
+        }
+
+        return inserted;
+      });
+    } catch (error) {
+      if (!(error instanceof ImportRollback)) {
+        throw error;
+      }
+    }
+  }
+
+  rejected.sort((a, b) => a.index - b.index);
+
+  return {
+    mode,
+    committed: created.length > 0,
+    total: features.length,
+    created,
+    rejected,
+  };
+}
@@ -1,9 +1,14 @@
 import { Elysia } from 'elysia';
 import { cors } from '@elysiajs/cors';
 import { testConnection } from './db';
+import { errorHandling } from './errors';
 import { routes } from './routes';
 import { websocket, setAppInstance } from './websocket';
 import { initNotificationCenter, shutdownNotificationCenter } from './notifications';
+import { startRetentionJob, stopRetentionJob } from './retention';
+import { startGeofencing, stopGeofencing } from './geofence';
+import { startRulesEngine, stopRulesEngine } from './rules';
+import { startAssetEventProducer, stopAssetEventProducer } from './producer';
 
 // Test database connection on startup
 await testConnection();
@@ -13,6 +18,9 @@ await testConnection();
  * Serves the geospatial dashboard API and WebSocket server
  */
 const app = new Elysia()
+  // Error bodies and request ids, for every route mounted below
+  .use(errorHandling)
+
   // Enable CORS for development (Vite dev server on different port)
   .use(
     cors({
@@ -35,29 +43,16 @@ const app = new Elysia()
   // Mount WebSocket
   .use(websocket)
 
-  // Global error handler
-  .onError(({ code, error, set }) => {
-    console.error('Server error:', error);
-    const errorMessage = error instanceof Error ? error.message : undefined;
-
-    if (code === 'NOT_FOUND') {
-      set.status = 404;
-      return { error: 'Not Found' };
-    }
-
-    set.status = 500;
-    return {
-      error: 'Internal Server Error',
-      message: process.env.NODE_ENV === 'development' ? errorMessage : undefined,
-    };
-  })
-
   // Start server
   .listen(3000);
 
 // Set app instance for WebSocket broadcasting
 setAppInstance(app);
 await initNotificationCenter();
+startRetentionJob();
+startGeofencing();
+startRulesEngine();
+await startAssetEventProducer();
 
 console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
 console.log('🗺️  Geospatial Dashboard Server');
@@ -70,3 +65,11 @@ console.log('━━━━━━━━━━━━━━━━━━━━━━
 // Gracefully shutdown notification center
 process.on('SIGTERM', shutdownNotificationCenter);
 process.on('SIGINT', shutdownNotificationCenter);
+process.on('SIGTERM', stopRetentionJob);
+process.on('SIGINT', stopRetentionJob);
+process.on('SIGTERM', stopGeofencing);
+process.on('SIGINT', stopGeofencing);
+process.on('SIGTERM', stopRulesEngine);
+process.on('SIGINT', stopRulesEngine);
+process.on('SIGTERM', stopAssetEventProducer);
+process.on('SIGINT', stopAssetEventProducer);
@@ -0,0 +1,96 @@
+import { EventEmitter } from 'events';
+import { Kafka, Producer, logLevel } from 'kafkajs';
+
+/**
+ * Kafka client shared by the notification listener and the asset event
+ * producer, or null when KAFKA_BROKERS is not configured
+ */
+export function createKafkaClient(): Kafka | null {
+  const brokers = (Bun.env.KAFKA_BROKERS || '')
+    .split(',')
+    .map((b) => b.trim())
+    .filter(Boolean);
+
+  if (brokers.length === 0) {
+    return null;
+  }
+
+  return new Kafka({
+    clientId: Bun.env.KAFKA_CLIENT_ID || 'geospatial-dashboard',
+    brokers,
+    logLevel: logLevel.ERROR,
+  });
+}
+
+/**
+ * Message written to a topic
+ */
+export interface TopicMessage {
+  key: string;
+  value: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Where produced messages go: a Kafka broker, or an in-process fake
+ */
+export interface MessageTransport {
+  connect(): Promise<void>;
+  send(topic: string, messages: TopicMessage[]): Promise<void>;
+  disconnect(): Promise<void>;
+}
+
+/**
+ * Transport backed by a kafkajs producer
+ * One request in flight at a time so messages with the same key keep their order.
+ */
+export class KafkaTransport implements MessageTransport {
+  private producer: Producer;
+
+  constructor(kafka: Kafka) {
+    this.producer = kafka.producer({ idempotent: true, maxInFlightRequests: 1 });
+  }
+
+  async connect() {
+    await this.producer.connect();
+  }
+
+  async send(topic: string, messages: TopicMessage[]) {
+    await this.producer.send({ topic, messages });
+  }
+
+  async disconnect() {
+    await this.producer.disconnect();
+  }
+}
+
+/**
+ * In-process stand-in for the broker
+ * Keeps every message in order and emits a "message" event for each one.
+ */
+export class InMemoryTransport extends EventEmitter implements MessageTransport {
+  readonly messages: (TopicMessage & { topic: string })[] = [];
+
+  async connect() {}
+
+  async send(topic: string, messages: TopicMessage[]) {
+    messages.forEach((message) => {
+      const entry = { topic, ...message };
+      this.messages.push(entry);
+      this.emit('message', entry);
+    });
+  }
+
+  async disconnect() {}
+
+  /**
+   * Messages sent to one topic, optionally only those with one key
+   */
+  topic(topic: string, key?: string) {
+    return this.messages.filter((m) => m.topic === topic && (key === undefined || m.key === key));
+  }
+
+  clear() {
+    this.messages.length = 0;
+  }
+}
@@ -1,8 +1,12 @@
 import { EventEmitter } from 'events';
 import { randomUUID } from 'crypto';
-import { Kafka, Consumer, logLevel } from 'kafkajs';
+import type { Consumer, KafkaMessage } from 'kafkajs';
 import webpush from 'web-push';
 import { sql } from './db';
+import { AssetCommandError, applyAssetCommand, type AssetCommandResult } from './commands';
+import { emitAssetChange } from './events';
+import { createKafkaClient, KafkaTransport, type MessageTransport } from './kafka';
+import { DEFAULT_TENANT } from './tenants';
 import { broadcast } from './websocket';
 import type {
   NotificationPayload,
@@ -14,6 +18,8 @@ import type {
 type NotificationSource = NotificationPayload['source'];
 
 interface NotificationInput {
+  // Tenant whose clients and push subscribers receive the notification
+  tenant: string;
   type: string;
   title: string;
   message: string;
@@ -32,6 +38,7 @@ interface PushSubscriptionRow {
 
 class NotificationCenter extends EventEmitter {
   private kafkaConsumer: Consumer | null = null;
+  private kafkaProducer: MessageTransport | null = null;
   private pushConfigured = false;
   private kafkaInitialized = false;
 
@@ -70,27 +77,16 @@ class NotificationCenter extends EventEmitter {
 
   /**
    * Initialize Kafka consumer (if configured)
+   * Also applies asset commands from KAFKA_TOPIC_ASSETS when that topic is set
    */
   private async initializeKafka() {
-    const brokerList = Bun.env.KAFKA_BROKERS;
-    if (!brokerList) {
+    const kafka = createKafkaClient();
+    if (!kafka) {
       console.log('ℹ️  Kafka brokers not configured. Skipping Kafka listener.');
       return;
     }
 
-    const brokers = brokerList.split(',').map((b) => b.trim()).filter(Boolean);
-    if (brokers.length === 0) {
-      console.warn('⚠️  No valid Kafka brokers found. Skipping Kafka listener.');
-      return;
-    }
-
     try {
-      const kafka = new Kafka({
-        clientId: Bun.env.KAFKA_CLIENT_ID || 'geospatial-dashboard',
-        brokers,
-        logLevel: logLevel.ERROR,
-      });
-
       this.kafkaConsumer = kafka.consumer({
         groupId: Bun.env.KAFKA_GROUP_ID || 'notification-center',
       });
@@ -100,9 +96,23 @@ class NotificationCenter extends EventEmitter {
       const topic = Bun.env.KAFKA_TOPIC_NOTIFICATIONS || 'notifications';
       await this.kafkaConsumer.subscribe({ topic, fromBeginning: false });
 
+      const assetsTopic = Bun.env.KAFKA_TOPIC_ASSETS;
+      const errorsTopic = Bun.env.KAFKA_TOPIC_ASSETS_ERRORS || `${assetsTopic}.errors`;
+      if (assetsTopic) {
+        this.kafkaProducer = new KafkaTransport(kafka);
+        await this.kafkaProducer.connect();
+        await this.kafkaConsumer.subscribe({ topic: assetsTopic, fromBeginning: false });
+      }
+
       await this.kafkaConsumer.run({
         eachMessage: async ({ message, topic: messageTopic, partition }) => {
           if (!message.value) return;
+
+          if (messageTopic === assetsTopic) {
+            await this.handleAssetCommand(message, errorsTopic);
+            return;
+          }
+
           try {
             const parsed = JSON.parse(message.value.toString()) as Partial<NotificationInput> & {
               source?: NotificationSource;
@@ -110,6 +120,7 @@ class NotificationCenter extends EventEmitter {
 
             this.publish(
               {
+                tenant: parsed.tenant || DEFAULT_TENANT,
                 type: parsed.type || messageTopic,
                 title: parsed.title || 'Kafka event received',
                 message: parsed.message || `Message received on ${messageTopic}:${partition}`,
@@ -126,17 +137,92 @@ class NotificationCenter extends EventEmitter {
 
       this.kafkaInitialized = true;
       console.log(`📡 Kafka notification listener started on topic "${topic}"`);
+      if (assetsTopic) {
+        console.log(`📡 Kafka asset command listener started on topic "${assetsTopic}" (errors to "${errorsTopic}")`);
+      }
     } catch (error) {
       console.error('❌ Failed to initialize Kafka consumer:', error);
     }
   }
 
+  /**
+   * Apply an asset command from Kafka
+   * Failures are published on the error topic with the original message.
+   */
+  private async handleAssetCommand(message: KafkaMessage, errorsTopic: string) {
+    const raw = message.value!.toString();
+    let payload: any;
+
+    try {
+      payload = JSON.parse(raw);
+      const result = await applyAssetCommand(payload);
+      this.announceAssetCommand(result);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Failed to apply asset command';
+      console.error('❌ Failed to apply Kafka asset command:', reason);
+
+      try {
+        await this.kafkaProducer?.send(errorsTopic, [
+          {
+            key: message.key?.toString() || payload?.requestId || '',
+            value: JSON.stringify({
+              requestId: payload?.requestId ?? null,
+              error: reason,
+              details: error instanceof AssetCommandError ? error.details : [],
+              message: payload ?? raw,
+              timestamp: new Date().toISOString(),
+            }),
+          },
+        ]);
+      } catch (sendError) {
+        console.error('❌ Failed to report Kafka asset command error:', sendError);
+      }
+    }
+  }
+
+  /**
+   * Notify about an applied asset command like the REST endpoints do
+   */
+  private announceAssetCommand(result: AssetCommandResult) {
+    if (result.action === 'delete') {
+      emitAssetNotification({
+        tenant: result.tenant,
+        action: 'deleted',
+        assetName: result.name,
+        severity: 'warning',
+        data: { id: result.id },
+        source: 'kafka',
+      });
+      emitAssetChange({ id: result.id, tenant: result.tenant, type: result.type, operation: 'delete' });
+      return;
+    }
+
+    const { feature } = result;
+    const created = result.action === 'create' || result.created;
+
+    emitAssetNotification({
+      tenant: result.tenant,
+      action: created ? 'created' : 'updated',
+      assetName: feature.properties.name,
+      severity: created ? 'success' : 'info',
+      data: { feature },
+      source: 'kafka',
+    });
+    emitAssetChange({
+      id: feature.id,
+      tenant: result.tenant,
+      type: feature.properties.type,
+      operation: created ? 'create' : 'update',
+    });
+  }
+
   /**
    * Publish a notification into the center
    */
   publish(input: NotificationInput, source: NotificationSource = 'system') {
     const payload: NotificationPayload = {
       id: randomUUID(),
+      tenant: input.tenant,
       source,
       type: input.type,
       severity: input.severity || 'info',
@@ -150,14 +236,17 @@ class NotificationCenter extends EventEmitter {
   }
 
   /**
-   * Handle notification fan-out to WebSocket + push subscribers
+   * Handle notification fan-out to the tenant's WebSocket + push subscribers
    */
   private handleNotification(payload: NotificationPayload) {
-    broadcast({
-      type: 'notification',
-      data: payload,
-      timestamp: payload.createdAt,
-    });
+    broadcast(
+      {
+        type: 'notification',
+        data: payload,
+        timestamp: payload.createdAt,
+      },
+      payload.tenant
+    );
 
     if (this.pushConfigured) {
       this.dispatchPush(payload).catch((error) => {
@@ -167,10 +256,10 @@ class NotificationCenter extends EventEmitter {
   }
 
   /**
-   * Send push notifications to all subscribers
+   * Send push notifications to all subscribers of the tenant
    */
   private async dispatchPush(payload: NotificationPayload) {
-    const subscriptions = await this.getPushSubscriptions();
+    const subscriptions = await this.getPushSubscriptions(payload.tenant);
     if (subscriptions.length === 0) {
       return;
     }
@@ -181,6 +270,7 @@ class NotificationCenter extends EventEmitter {
       data: {
         ...payload.data,
         notificationId: payload.id,
+        tenant: payload.tenant,
         severity: payload.severity,
         type: payload.type,
         source: payload.source,
@@ -212,16 +302,27 @@ class NotificationCenter extends EventEmitter {
     );
   }
 
-  private async getPushSubscriptions(): Promise<PushSubscriptionRow[]> {
+  private async getPushSubscriptions(tenant: string): Promise<PushSubscriptionRow[]> {
     const result = await sql<PushSubscriptionRow[]>`
       SELECT id, endpoint, p256dh, auth, expiration_time, user_agent
       FROM push_subscriptions
+      WHERE tenant_id = ${tenant}
     `;
 
     return result;
   }
 
   async shutdown() {
+    if (this.kafkaProducer) {
+      try {
+        await this.kafkaProducer.disconnect();
+      } catch (error) {
+        console.error('❌ Error disconnecting Kafka producer:', error);
+      } finally {
+        this.kafkaProducer = null;
+      }
+    }
+
     if (this.kafkaConsumer && this.kafkaInitialized) {
       try {
         await this.kafkaConsumer.disconnect();
@@ -247,21 +348,23 @@ export async function shutdownNotificationCenter() {
 }
 
 export async function savePushSubscription(
+  tenant: string,
   payload: PushSubscriptionRequest,
   userAgent?: string | null
 ): Promise<PushSubscriptionRecord> {
   const expiration = payload.expirationTime ?? null;
 
   const result = await sql<PushSubscriptionRecord[]>`
-    INSERT INTO push_subscriptions (endpoint, p256dh, auth, expiration_time, user_agent)
+    INSERT INTO push_subscriptions (tenant_id, endpoint, p256dh, auth, expiration_time, user_agent)
     VALUES (
+      ${tenant},
       ${payload.endpoint},
       ${payload.keys.p256dh},
       ${payload.keys.auth},
       ${expiration},
       ${userAgent || null}
     )
-    ON CONFLICT (endpoint) DO UPDATE SET
+    ON CONFLICT (tenant_id, endpoint) DO UPDATE SET
       p256dh = EXCLUDED.p256dh,
       auth = EXCLUDED.auth,
       expiration_time = EXCLUDED.expiration_time,
@@ -281,39 +384,48 @@ export async function savePushSubscription(
   return result[0];
 }
 
-export async function deletePushSubscription(endpoint: string) {
+export async function deletePushSubscription(tenant: string, endpoint: string) {
   await sql`
     DELETE FROM push_subscriptions
-    WHERE endpoint = ${endpoint}
+    WHERE tenant_id = ${tenant} AND endpoint = ${endpoint}
   `;
 }
 
 export function emitAssetNotification({
+  tenant,
   action,
   assetName,
+  message,
   severity = 'info',
   data,
+  source = 'api',
 }: {
-  action: 'created' | 'updated' | 'deleted' | 'geometry_updated';
+  tenant: string;
+  action: 'created' | 'updated' | 'deleted' | 'restored' | 'geometry_updated' | 'imported';
   assetName: string;
+  message?: string;
   severity?: NotificationSeverity;
   data?: Record<string, any>;
+  source?: NotificationSource;
 }) {
   const titleMap: Record<string, string> = {
     created: 'Asset created',
     updated: 'Asset updated',
     deleted: 'Asset deleted',
+    restored: 'Asset restored',
     geometry_updated: 'Asset geometry updated',
+    imported: 'Assets imported',
   };
 
   notificationCenter.publish(
     {
+      tenant,
       type: `asset.${action}`,
       title: titleMap[action],
-      message: `${assetName} was ${action.replace('_', ' ')}.`,
+      message: message || `${assetName} was ${action.replace('_', ' ')}.`,
       severity,
       data,
     },
-    'api'
+    source
   );
 }
@@ -0,0 +1,304 @@
+import { getSchemaValidator, type Static } from 'elysia';
+import { patchableAsset } from './schemas';
+import type { FieldError } from './types';
+
+/**
+ * Partial asset updates
+ *
+ * PATCH /api/assets/:id accepts a JSON Merge Patch (RFC 7396) or a JSON Patch
+ * (RFC 6902) over the editable part of an asset. Either way the change is
+ * described afterwards as a merge patch, which is what notifications and
+ * WebSocket clients receive.
+ */
+
+export const MERGE_PATCH_TYPE = 'application/merge-patch+json';
+export const JSON_PATCH_TYPE = 'application/json-patch+json';
+
+export type PatchableAsset = Static<typeof patchableAsset>;
+
+/**
+ * Raised when a patch is malformed, cannot be applied or leaves an invalid asset
+ */
+export class PatchError extends Error {
+  constructor(
+    message: string,
+    readonly details: FieldError[] = []
+  ) {
+    super(message);
+    this.name = 'PatchError';
+  }
+}
+
+const validator = getSchemaValidator(patchableAsset)!;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+const hasOwn = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+// Member names that would reach Object.prototype; patches may not name them
+const UNSAFE_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+const escapeToken = (key: string) => key.replace(/~/g, '~0').replace(/\//g, '~1');
+
+/**
+ * Apply a merge patch: objects merge recursively, null removes a member and
+ * anything else replaces the target
+ * Throws PatchError for members named like UNSAFE_KEYS; `path` is the JSON
+ * Pointer of `patch`, used to report them.
+ */
+export function applyMergePatch(target: unknown, patch: unknown, path = ''): any {
+  if (!isObject(patch)) return clone(patch);
+
+  const result: Record<string, any> = isObject(target) ? { ...target } : {};
+
+  Object.entries(patch).forEach(([key, value]) => {
+    const field = `${path}/${escapeToken(key)}`;
+
+    if (UNSAFE_KEYS.has(key)) {
+      throw new PatchError(`Invalid member name: ${JSON.stringify(key)}`, [
+        { field, message: 'Member name not allowed' },
+      ]);
+    }
+
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(hasOwn(result, key) ? result[key] : undefined, value, field);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Merge patch that turns `before` into `after`
+ * Arrays cannot be patched partially and are replaced whole.
+ */
+export function createMergePatch(before: unknown, after: unknown): any {
+  if (!isObject(before) || !isObject(after)) {
+    return JSON.stringify(before) === JSON.stringify(after) ? undefined : clone(after);
+  }
+
+  const patch: Record<string, any> = {};
+
+  Object.keys(before).forEach((key) => {
+    if (!hasOwn(after, key)) patch[key] = null;
+  });
+
+  Object.entries(after).forEach(([key, value]) => {
+    const change = hasOwn(before, key) ? createMergePatch(before[key], value) : clone(value);
+    if (change !== undefined) patch[key] = change;
+  });
+
+  return Object.keys(patch).length > 0 ? patch : undefined;
+}
+
+/**
+ * Split a JSON Pointer (RFC 6901) into unescaped reference tokens
+ */
+function parsePointer(pointer: unknown): string[] {
+  if (typeof pointer !== 'string' || (pointer !== '' && !pointer.startsWith('/'))) {
+    throw new PatchError(`Invalid JSON Pointer: ${JSON.stringify(pointer)}`);
+  }
+
+  const tokens = pointer
+    .split('/')
+    .slice(1)
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+  if (tokens.some((token) => UNSAFE_KEYS.has(token))) {
+    throw new PatchError(`Invalid JSON Pointer: ${JSON.stringify(pointer)}`, [
+      { field: pointer, message: 'Member name not allowed' },
+    ]);
+  }
+
+  return tokens;
+}
+
+/**
+ * Container and key a pointer refers to
+ * Only own members are followed, never inherited ones.
+ */
+function resolveParent(document: any, tokens: string[], pointer: string) {
+  let parent = document;
+
+  tokens.slice(0, -1).forEach((token) => {
+    const next = Array.isArray(parent)
+      ? parent[Number(token)]
+      : isObject(parent) && hasOwn(parent, token)
+        ? parent[token]
+        : undefined;
+    if (next === undefined) {
+      throw new PatchError(`Path not found: ${pointer}`);
+    }
+    parent = next;
+  });
+
+  if (!Array.isArray(parent) && !isObject(parent)) {
+    throw new PatchError(`Path not found: ${pointer}`);
+  }
+
+  return { parent, key: tokens[tokens.length - 1] };
+}
+
+function arrayIndex(array: any[], key: string, pointer: string, allowEnd: boolean) {
+  if (allowEnd && key === '-') return array.length;
+
+  const index = /^(0|[1-9]\d*)$/.test(key) ? Number(key) : NaN;
+  if (Number.isNaN(index) || index > array.length || (!allowEnd && index === array.length)) {
+    throw new PatchError(`Invalid array index: ${pointer}`);
+  }
+
+  return index;
+}
+
+function getValue(document: any, pointer: string) {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) return document;
+
+  const { parent, key } = resolveParent(document, tokens, pointer);
+  const value = Array.isArray(parent)
+    ? parent[arrayIndex(parent, key, pointer, false)]
+    : hasOwn(parent, key)
+      ? parent[key]
+      : undefined;
+
+  if (value === undefined) {
+    throw new PatchError(`Path not found: ${pointer}`);
+  }
+
+  return value;
+}
+
+function addValue(document: any, pointer: string, value: unknown) {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) return clone(value);
+
+  const { parent, key } = resolveParent(document, tokens, pointer);
+
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, pointer, true), 0, clone(value));
+  } else {
+    parent[key] = clone(value);
+  }
+
+  return document;
+}
+
+function removeValue(document: any, pointer: string) {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) {
+    throw new PatchError('Cannot remove the whole document');
+  }
+
+  const { parent, key } = resolveParent(document, tokens, pointer);
+
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, pointer, false), 1);
+  } else {
+    if (!hasOwn(parent, key)) {
+      throw new PatchError(`Path not found: ${pointer}`);
+    }
+    delete parent[key];
+  }
+
+  return document;
+}
+
+function replaceValue(document: any, pointer: string, value: unknown) {
+  getValue(document, pointer);
+
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) return clone(value);
+
+  const { parent, key } = resolveParent(document, tokens, pointer);
+
+  if (Array.isArray(parent)) {
+    parent[arrayIndex(parent, key, pointer, false)] = clone(value);
+  } else {
+    parent[key] = clone(value);
+  }
+
+  return document;
+}
+
+/**
+ * Apply a JSON Patch, every operation or none
+ */
+export function applyJsonPatch(target: unknown, operations: unknown): any {
+  if (!Array.isArray(operations)) {
+    throw new PatchError('A JSON Patch must be an array of operations');
+  }
+
+  let document = clone(target);
+
+  operations.forEach((operation, index) => {
+    if (!isObject(operation)) {
+      throw new PatchError(`Operation ${index} is not an object`);
+    }
+
+    const { op, path, from, value } = operation;
+
+    if (['add', 'replace', 'test'].includes(op) && !('value' in operation)) {
+      throw new PatchError(`Operation ${index} (${op}) needs a value`);
+    }
+
+    switch (op) {
+      case 'add':
+        document = addValue(document, path, value);
+        break;
+      case 'remove':
+        document = removeValue(document, path);
+        break;
+      case 'replace':
+        document = replaceValue(document, path, value);
+        break;
+      case 'move': {
+        const moved = getValue(document, from);
+        document = addValue(removeValue(document, from), path, moved);
+        break;
+      }
+      case 'copy':
+        document = addValue(document, path, getValue(document, from));
+        break;
+      case 'test':
+        if (JSON.stringify(getValue(document, path)) !== JSON.stringify(value)) {
+          throw new PatchError(`Test failed at ${path}`);
+        }
+        break;
+      default:
+        throw new PatchError(`Operation ${index} has an unknown op: ${JSON.stringify(op)}`);
+    }
+  });
+
+  return document;
+}
+
+/**
+ * Apply a request body of the given content type to an asset
+ * Only name, status and properties can be changed; the result is validated.
+ */
+export function patchAsset(asset: PatchableAsset, body: unknown, contentType: string): PatchableAsset {
+  let patched: unknown;
+
+  if (contentType === JSON_PATCH_TYPE) {
+    patched = applyJsonPatch(asset, body);
+  } else {
+    if (!isObject(body)) {
+      throw new PatchError('A merge patch must be a JSON object');
+    }
+    patched = applyMergePatch(asset, body);
+  }
+
+  if (!validator.Check(patched)) {
+    const details = [...validator.Errors(patched)].map(
+      (error): FieldError => ({ field: error.path || '/', message: error.message })
+    );
+    throw new PatchError('The patched asset is invalid', details);
+  }
+
+  return patched;
+}
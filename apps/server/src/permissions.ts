@@ -0,0 +1,137 @@
+import { Elysia } from 'elysia';
+import { authentication } from './auth';
+import { ForbiddenError } from './errors';
+import type { AssetType, Principal, Role } from './types';
+
+/**
+ * Role-based permissions
+ *
+ * Users get their roles from the `roles` (or `role`) claim of their token,
+ * API keys from api_keys.role. Each role grants actions, the asset changing
+ * ones for some asset types only; a principal's `asset_types` (token claim or
+ * api_keys column) narrows those further. Viewing is never scoped. Managing
+ * tenants is for admins bound to no tenant.
+ */
+
+export type Action =
+  | 'assets:read'
+  | 'assets:create'
+  | 'assets:update'
+  | 'assets:delete'
+  | 'assets:import'
+  | 'telemetry:ingest'
+  | 'notifications:subscribe'
+  | 'notifications:publish'
+  | 'rules:read'
+  | 'rules:manage'
+  | 'tenants:manage';
+
+const ALL_TYPES: AssetType[] = ['vehicle', 'incident', 'poi', 'zone', 'route'];
+
+type Grants = Partial<Record<Action, AssetType[]>>;
+
+const VIEWER: Grants = {
+  'assets:read': ALL_TYPES,
+  'notifications:subscribe': ALL_TYPES,
+  'rules:read': ALL_TYPES,
+};
+
+// Dispatchers handle incidents and direct vehicles
+const DISPATCHER: Grants = {
+  ...VIEWER,
+  'assets:create': ['incident'],
+  'assets:update': ['incident', 'vehicle'],
+  'assets:delete': ['incident'],
+  'telemetry:ingest': ['vehicle'],
+};
+
+const EDITOR: Grants = {
+  ...DISPATCHER,
+  'assets:create': ALL_TYPES,
+  'assets:update': ALL_TYPES,
+  'assets:delete': ALL_TYPES,
+  'assets:import': ALL_TYPES,
+};
+
+const ADMIN: Grants = {
+  ...EDITOR,
+  'notifications:publish': ALL_TYPES,
+  'rules:manage': ALL_TYPES,
+  'tenants:manage': ALL_TYPES,
+};
+
+// Actions that change assets, the ones a principal's asset_types narrow
+const CHANGES: Action[] = ['assets:create', 'assets:update', 'assets:delete', 'assets:import', 'telemetry:ingest'];
+
+const ROLE_GRANTS: Record<Role, Grants> = {
+  viewer: VIEWER,
+  dispatcher: DISPATCHER,
+  editor: EDITOR,
+  admin: ADMIN,
+};
+
+/**
+ * Asset types a principal may perform an action on (empty when none)
+ */
+export function allowedTypes(principal: Principal, action: Action): AssetType[] {
+  if (action === 'tenants:manage' && principal.tenant) return [];
+
+  const granted = new Set(principal.roles.flatMap((role) => ROLE_GRANTS[role][action] ?? []));
+  const scope = CHANGES.includes(action) ? principal.assetTypes : null;
+
+  return ALL_TYPES.filter((type) => granted.has(type) && (!scope || scope.includes(type)));
+}
+
+/**
+ * Whether a principal may perform an action, on assets of the given type or
+ * on any type when none is given
+ */
+export function can(principal: Principal, action: Action, type?: AssetType) {
+  const types = allowedTypes(principal, action);
+  return type ? types.includes(type) : types.length > 0;
+}
+
+/**
+ * Everything a principal may do, by action (for GET /api/me)
+ */
+export function permissionsOf(principal: Principal) {
+  const actions = Object.keys(ADMIN) as Action[];
+
+  return Object.fromEntries(
+    actions.map((action) => [action, allowedTypes(principal, action)]).filter(([, types]) => types.length > 0)
+  ) as Partial<Record<Action, AssetType[]>>;
+}
+
+/**
+ * The 403 error for a missing permission
+ * Its details name the permission and the principal's roles; for an asset
+ * type, also the types the principal may perform the action on.
+ */
+export function forbidden(principal: Principal, action: Action, type?: AssetType) {
+  const [subject, verb] = action.split(':');
+
+  return new ForbiddenError(`Not allowed to ${verb} ${type ? `${type} ${subject}` : subject}`, {
+    required: { action, ...(type ? { assetType: type } : {}) },
+    roles: principal.roles,
+    ...(type ? { allowedTypes: allowedTypes(principal, action) } : {}),
+  });
+}
+
+/**
+ * Elysia plugin: authentication, plus a `permission` route option
+ * Routes declaring `permission: 'assets:delete'` answer 403 unless the
+ * principal may perform the action on at least one asset type; handlers check
+ * the type of the asset concerned with can().
+ */
+export const authorization = new Elysia({ name: 'authorization' })
+  .use(authentication)
+  .macro({
+    permission: (action: Action) => ({
+      beforeHandle({ principal }) {
+        if (!principal || can(principal, action)) return;
+
+        throw forbidden(principal, action);
+      },
+    }),
+  })
+  .as('scoped');
@@ -0,0 +1,141 @@
+import { afterAll, beforeAll, expect, mock, test } from 'bun:test';
+import { emitAssetChange } from './events';
+import { InMemoryTransport } from './kafka';
+import type { AssetChangeEvent, AssetOperation, AssetSnapshot, AssetStatus } from './types';
+
+/**
+ * The producer reads its snapshots from asset_history; the database is
+ * replaced by an in-memory history answering the producer's query.
+ */
+
+interface HistoryRow {
+  asset_id: string;
+  tenant_id: string;
+  version: number;
+  operation: AssetOperation;
+  changed_at: Date;
+  before: AssetSnapshot | null;
+  after: AssetSnapshot | null;
+}
+
+const history: HistoryRow[] = [];
+
+const sql = (strings: TemplateStringsArray, ...values: any[]) => {
+  // Fragments such as sql`AND version > ${after}` are passed to the query as values
+  if (!strings.join('').includes('asset_history')) return { values };
+
+  const [assetId, afterFragment] = values;
+  const after: number | undefined = afterFragment.values[0];
+  const versions = history.filter((row) => row.asset_id === assetId);
+
+  // Answer asynchronously, as a database would
+  return Bun.sleep(1).then(() =>
+    after === undefined ? versions.slice(-1) : versions.filter((row) => row.version > after)
+  );
+};
+
+mock.module('./db', () => ({ sql }));
+
+const { startAssetEventProducer, stopAssetEventProducer } = await import('./producer');
+
+const transport = new InMemoryTransport();
+
+const snapshot = (name: string, status: AssetStatus): AssetSnapshot => ({
+  name,
+  type: 'vehicle',
+  status,
+  geometry: { type: 'Point', coordinates: [0, 0] },
+  properties: {},
+});
+
+/**
+ * Record a version of an asset and emit its change, as the routes do
+ */
+function change(assetId: string, operation: AssetOperation, status: AssetStatus) {
+  const versions = history.filter((row) => row.asset_id === assetId);
+  const previous = versions[versions.length - 1];
+
+  history.push({
+    asset_id: assetId,
+    tenant_id: 'default',
+    version: versions.length + 1,
+    operation,
+    changed_at: new Date(),
+    before: previous?.after ?? null,
+    after: operation === 'delete' ? null : snapshot(assetId, status),
+  });
+
+  emitAssetChange({ id: assetId, tenant: 'default', type: 'vehicle', operation });
+}
+
+const events = (assetId?: string) =>
+  transport.topic('asset-events', assetId).map((message) => JSON.parse(message.value) as AssetChangeEvent);
+
+const waitForMessages = (count: number) =>
+  new Promise<void>((resolve) => {
+    if (transport.messages.length >= count) return resolve();
+    transport.on('message', () => {
+      if (transport.messages.length >= count) resolve();
+    });
+  });
+
+beforeAll(async () => {
+  await startAssetEventProducer(transport);
+
+  change('truck-1', 'create', 'active');
+  change('truck-2', 'create', 'active');
+  await waitForMessages(2);
+
+  // Changes of both assets interleaved, emitted without waiting for publication
+  change('truck-1', 'update', 'warning');
+  change('truck-2', 'update', 'inactive');
+  change('truck-1', 'update', 'active');
+  change('truck-1', 'delete', 'active');
+  change('truck-2', 'delete', 'inactive');
+
+  await stopAssetEventProducer();
+});
+
+afterAll(() => {
+  mock.restore();
+});
+
+test('messages are keyed by asset id', () => {
+  expect(transport.messages).toHaveLength(7);
+
+  transport.messages.forEach((message) => {
+    const event = JSON.parse(message.value) as AssetChangeEvent;
+    expect(message.key).toBe(event.assetId);
+    expect(message.headers).toEqual({ operation: event.operation, tenant: 'default' });
+  });
+});
+
+test('each asset keeps the order of its changes', () => {
+  expect(events('truck-1').map((event) => [event.version, event.operation])).toEqual([
+    [1, 'create'],
+    [2, 'update'],
+    [3, 'update'],
+    [4, 'delete'],
+  ]);
+  expect(events('truck-2').map((event) => [event.version, event.operation])).toEqual([
+    [1, 'create'],
+    [2, 'update'],
+    [3, 'delete'],
+  ]);
+});
+
+test('events carry the before and after snapshots', () => {
+  const [created, warned, reactivated, deleted] = events('truck-1');
+
+  expect(created.before).toBeNull();
+  expect(created.after).toEqual(snapshot('truck-1', 'active'));
+
+  expect(warned.before).toEqual(snapshot('truck-1', 'active'));
+  expect(warned.after).toEqual(snapshot('truck-1', 'warning'));
+
+  expect(reactivated.before).toEqual(snapshot('truck-1', 'warning'));
+  expect(reactivated.after).toEqual(snapshot('truck-1', 'active'));
+
+  expect(deleted.before).toEqual(snapshot('truck-1', 'active'));
+  expect(deleted.after).toBeNull();
+});
@@ -0,0 +1,169 @@
+import { sql } from './db';
+import { assetEvents, type AssetChange } from './events';
+import { createKafkaClient, KafkaTransport, type MessageTransport } from './kafka';
+import type { AssetChangeEvent } from './types';
+
+/**
+ * Asset change event producer
+ *
+ * Every committed asset change is published to KAFKA_TOPIC_ASSET_EVENTS as an
+ * AssetChangeEvent keyed by asset id, so consumers see the changes of one
+ * asset in order; a tenant header names the asset's tenant. The before/after
+ * snapshots come from asset_history: each change publishes every version
+ * recorded since the last one published for that asset, so concurrent writes
+ * are neither skipped nor reordered.
+ *
+ * Only changes emitted in this process through emitAssetChange() are
+ * published: writes made by another server instance or directly in the
+ * database produce no event until this process emits a change of that asset.
+ */
+
+const TOPIC = Bun.env.KAFKA_TOPIC_ASSET_EVENTS || 'asset-events';
+
+let transport: MessageTransport | null = null;
+
+// Last version published per asset (unknown assets publish their newest version)
+// Deleted assets are forgotten once nothing more is queued for them, so the
+// map only holds assets that exist; a restore is then their newest version.
+const publishedVersions = new Map<string, { version: number; deleted: boolean }>();
+
+// Pending publication per asset, chained to keep each asset's events in order
+const queues = new Map<string, Promise<void>>();
+
+/**
+ * Load the versions of an asset recorded after the last published one
+ */
+async function loadEvents(assetId: string): Promise<AssetChangeEvent[]> {
+  const after = publishedVersions.get(assetId)?.version;
+
+  const rows = await sql`
+    SELECT *
+    FROM (
+      SELECT
+        asset_id,
+        tenant_id,
+        version,
+        operation,
+        changed_at,
+        CASE WHEN operation = 'create' THEN NULL ELSE jsonb_build_object(
+          'name', old_name,
+          'type', old_type,
+          'status', old_status,
+          'geometry', ST_AsGeoJSON(old_geometry)::jsonb,
+          'properties', COALESCE(old_properties, '{}'::jsonb)
+        ) END as before,
+        CASE WHEN operation = 'delete' THEN NULL ELSE jsonb_build_object(
+          'name', new_name,
+          'type', new_type,
+          'status', new_status,
+          'geometry', ST_AsGeoJSON(new_geometry)::jsonb,
+          'properties', COALESCE(new_properties, '{}'::jsonb)
+        ) END as after
+      FROM asset_history
+      WHERE asset_id = ${assetId}
+        ${after === undefined ? sql`` : sql`AND version > ${after}`}
+      ORDER BY version DESC
+      ${after === undefined ? sql`LIMIT 1` : sql``}
+    ) versions
+    ORDER BY version
+  `;
+
+  return rows.map(
+    (row): AssetChangeEvent => ({
+      operation: row.operation,
+      assetId: row.asset_id,
+      tenant: row.tenant_id,
+      version: row.version,
+      before: row.before,
+      after: row.after,
+      timestamp: new Date(row.changed_at).toISOString(),
+    })
+  );
+}
+
+/**
+ * Publish the unpublished versions of one asset
+ */
+async function publishChanges(assetId: string) {
+  const events = await loadEvents(assetId);
+  if (events.length === 0 || !transport) return;
+
+  await transport.send(
+    TOPIC,
+    events.map((event) => ({
+      key: event.assetId,
+      value: JSON.stringify(event),
+      headers: { operation: event.operation, tenant: event.tenant },
+    }))
+  );
+
+  const last = events[events.length - 1];
+  publishedVersions.set(assetId, { version: last.version, deleted: last.operation === 'delete' });
+}
+
+const handleAssetChange = ({ id }: AssetChange) => {
+  const previous = queues.get(id) ?? Promise.resolve();
+
+  const next = previous
+    .then(() => publishChanges(id))
+    .catch((error) => {
+      console.error('❌ Error publishing asset change event:', error);
+    })
+    .finally(() => {
+      if (queues.get(id) !== next) return;
+
+      queues.delete(id);
+      if (publishedVersions.get(id)?.deleted) publishedVersions.delete(id);
+    });
+
+  queues.set(id, next);
+};
+
+/**
+ * Start publishing asset changes
+ * Uses a Kafka producer when KAFKA_BROKERS is set; tests pass an
+ * InMemoryTransport instead of a broker.
+ */
+export async function startAssetEventProducer(customTransport?: MessageTransport) {
+  if (transport) return;
+
+  let selected = customTransport ?? null;
+  if (!selected) {
+    const kafka = createKafkaClient();
+    if (!kafka) {
+      console.log('ℹ️  Kafka brokers not configured. Asset change events are not published.');
+      return;
+    }
+    selected = new KafkaTransport(kafka);
+  }
+
+  try {
+    await selected.connect();
+  } catch (error) {
+    console.error('❌ Failed to connect asset event producer:', error);
+    return;
+  }
+
+  transport = selected;
+  assetEvents.on('change', handleAssetChange);
+  console.log(`📤 Publishing asset change events to topic "${TOPIC}"`);
+}
+
+export async function stopAssetEventProducer() {
+  if (!transport) return;
+
+  assetEvents.off('change', handleAssetChange);
+
+  // Let queued events go out before disconnecting
+  await Promise.all(queues.values());
+
+  try {
+    await transport.disconnect();
+    console.log('📤 Asset event producer stopped');
+  } catch (error) {
+    console.error('❌ Error disconnecting asset event producer:', error);
+  } finally {
+    transport = null;
+    publishedVersions.clear();
+  }
+}
@@ -2,9 +2,14 @@ import { Elysia } from 'elysia';
 import { cors } from '@elysiajs/cors';
 import { staticPlugin } from '@elysiajs/static';
 import { testConnection } from './db';
+import { errorHandling } from './errors';
 import { routes } from './routes';
 import { websocket, setAppInstance } from './websocket';
 import { initNotificationCenter, shutdownNotificationCenter } from './notifications';
+import { startRetentionJob, stopRetentionJob } from './retention';
+import { startGeofencing, stopGeofencing } from './geofence';
+import { startRulesEngine, stopRulesEngine } from './rules';
+import { startAssetEventProducer, stopAssetEventProducer } from './producer';
 import * as path from 'path';
 
 // Test database connection on startup
@@ -12,17 +17,26 @@ await testConnection();
 
 const PORT = process.env.PORT || 3000;
 const CLIENT_DIST = path.join(import.meta.dir, '../../client/dist');
+const CORS_ORIGINS = (process.env.CORS_ORIGIN || '')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
 
 /**
  * Production Elysia application
  * Serves both the API and the static frontend files
  */
 const app = new Elysia()
-  // Enable CORS
+  // Error bodies and request ids, for every route mounted below
+  .use(errorHandling)
+
+  // Cross-origin requests only from the CORS_ORIGIN allow-list; the bundled
+  // frontend is served from the same origin and needs none
   .use(
     cors({
-      origin: process.env.CORS_ORIGIN || true,
-      credentials: true,
+      origin: CORS_ORIGINS.length > 0 ? CORS_ORIGINS : false,
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Tenant-ID', 'X-Request-ID', 'If-Match'],
+      exposeHeaders: ['ETag', 'X-Request-ID'],
     })
   )
 
@@ -46,27 +60,16 @@ const app = new Elysia()
     return Bun.file(path.join(CLIENT_DIST, 'index.html'));
   })
 
-  // Global error handler
-  .onError(({ code, error, set }) => {
-    console.error('Server error:', error);
-
-    if (code === 'NOT_FOUND') {
-      set.status = 404;
-      return { error: 'Not Found' };
-    }
-
-    set.status = 500;
-    return {
-      error: 'Internal Server Error',
-    };
-  })
-
   // Start server
   .listen(PORT);
 
 // Set app instance for WebSocket broadcasting
 setAppInstance(app);
 await initNotificationCenter();
+startRetentionJob();
+startGeofencing();
+startRulesEngine();
+await startAssetEventProducer();
 
 console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
 console.log('🗺️  Geospatial Dashboard (Production)');
@@ -77,3 +80,11 @@ console.log('━━━━━━━━━━━━━━━━━━━━━━
 
 process.on('SIGTERM', shutdownNotificationCenter);
 process.on('SIGINT', shutdownNotificationCenter);
+process.on('SIGTERM', stopRetentionJob);
+process.on('SIGINT', stopRetentionJob);
+process.on('SIGTERM', stopGeofencing);
+process.on('SIGINT', stopGeofencing);
+process.on('SIGTERM', stopRulesEngine);
+process.on('SIGINT', stopRulesEngine);
+process.on('SIGTERM', stopAssetEventProducer);
+process.on('SIGINT', stopAssetEventProducer);
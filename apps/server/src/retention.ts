@@ -0,0 +1,90 @@
+import { sql } from './db';
+
+/**
+ * Retention configuration
+ * Soft-deleted assets older than ASSET_RETENTION_DAYS are purged permanently.
+ * Purging is disabled when ASSET_RETENTION_DAYS is unset or 0.
+ * Change log entries older than CHANGE_LOG_RETENTION_HOURS are always pruned;
+ * WebSocket clients that were offline longer must reload.
+ */
+const RETENTION_DAYS = Number(Bun.env.ASSET_RETENTION_DAYS) || 0;
+const RETENTION_INTERVAL = Number(Bun.env.ASSET_RETENTION_INTERVAL) || 60 * 60 * 1000; // 1 hour
+const CHANGE_LOG_RETENTION_HOURS = Number(Bun.env.CHANGE_LOG_RETENTION_HOURS) || 24;
+
+/**
+ * Permanently delete assets that were soft-deleted more than `days` days ago
+ * Their history rows are kept so point-in-time queries still see them. Zones
+ * still named by an alert rule are kept until the rule is changed or deleted,
+ * so purging never takes a rule's zone away.
+ */
+export async function purgeDeletedAssets(days: number = RETENTION_DAYS) {
+  const purged = await sql`
+    DELETE FROM assets
+    WHERE deleted_at IS NOT NULL
+      AND deleted_at < NOW() - make_interval(days => ${days})
+      AND NOT EXISTS (SELECT 1 FROM alert_rules r WHERE r.zone_id = assets.id)
+    RETURNING id
+  `;
+
+  if (purged.length > 0) {
+    console.log(`🗑️  Purged ${purged.length} deleted asset(s) older than ${days} day(s)`);
+  }
+
+  return purged.length;
+}
+
+/**
+ * Delete change log entries older than `hours` hours
+ * The newest entry is kept so resuming clients can tell how far the log goes
+ */
+export async function pruneChangeLog(hours: number = CHANGE_LOG_RETENTION_HOURS) {
+  const pruned = await sql`
+    DELETE FROM asset_change_log
+    WHERE changed_at < NOW() - make_interval(hours => ${hours})
+      AND seq < (SELECT MAX(seq) FROM asset_change_log)
+  `;
+
+  if (pruned.count > 0) {
+    console.log(`🗑️  Pruned ${pruned.count} change log entries older than ${hours} hour(s)`);
+  }
+
+  return pruned.count;
+}
+
+let retentionTimer: Timer | null = null;
+
+export function startRetentionJob() {
+  if (retentionTimer) return;
+
+  if (RETENTION_DAYS <= 0) {
+    console.log('ℹ️  ASSET_RETENTION_DAYS not configured. Deleted assets are kept indefinitely.');
+  }
+
+  const run = () => {
+    if (RETENTION_DAYS > 0) {
+      purgeDeletedAssets().catch((error) => {
+        console.error('❌ Error purging deleted assets:', error);
+      });
+    }
+
+    pruneChangeLog().catch((error) => {
+      console.error('❌ Error pruning change log:', error);
+    });
+  };
+
+  console.log(
+    RETENTION_DAYS > 0
+      ? `🗑️  Started retention job (purging assets deleted more than ${RETENTION_DAYS} day(s) ago)`
+      : '🗑️  Started retention job'
+  );
+  run();
+  retentionTimer = setInterval(run, RETENTION_INTERVAL);
+}
+
+export function stopRetentionJob() {
+  if (retentionTimer) {
+    clearInterval(retentionTimer);
+    retentionTimer = null;
+    console.log('🗑️  Stopped retention job');
+  }
+}
@@ -1,129 +1,379 @@
 import { Elysia, t } from 'elysia';
+import postgres from 'postgres';
 import { sql } from './db';
+import {
+  ApiError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+  isDatabaseUnavailable,
+  toApiError,
+} from './errors';
+import {
+  afterCursor,
+  assetConditions,
+  assetFeature,
+  assetSource,
+  decodeCursor,
+  encodeCursor,
+  parseAsOf,
+  spatialCondition,
+  whereClause,
+} from './filters';
 import {
   emitAssetNotification,
   savePushSubscription,
   deletePushSubscription,
   notificationCenter,
 } from './notifications';
+import { emitAssetChange } from './events';
+import { exportAssets } from './export';
+import { FilterSyntaxError, filterCondition } from './expression';
+import { importFeatures } from './import';
+import { allowedTypes, authorization, can, forbidden, permissionsOf } from './permissions';
+import { JSON_PATCH_TYPE, MERGE_PATCH_TYPE, PatchError, createMergePatch, patchAsset } from './patch';
+import { assetBody, assetUpdateBody } from './schemas';
+import { parseTileCoordinates, renderTile } from './tiles';
+import { TENANT_ID_PATTERN, createTenant, listTenants, tenancy } from './tenants';
+import { ingestTelemetry } from './telemetry';
+import { RuleValidationError, createRule, deleteRule, getRule, listRules, updateRule } from './rules';
 import type {
+  AlertRuleInput,
+  AssetFeaturePage,
+  AssetHistoryPage,
   AssetQueryParams,
+  AssetStatus,
+  AssetTrack,
+  AssetType,
+  AssetVersion,
+  DeletedAsset,
+  DeletedAssetsPage,
+  ExportFormat,
+  ImportOptions,
   GeoJSONFeatureCollection,
   GeoJSONFeature,
   NotificationSeverity,
 } from './types';
 
+/**
+ * KNN candidates fetched per requested asset before geodesic re-ranking
+ */
+const NEAREST_CANDIDATE_FACTOR = 4;
+const NEAREST_MIN_CANDIDATES = 50;
+
+/**
+ * Default time window and maximum number of positions of a vehicle track
+ */
+const TRACK_DEFAULT_HOURS = 24;
+const TRACK_MAX_POSITIONS = 10000;
+
+/**
+ * ETag of an asset version
+ */
+const assetETag = (version: number) => `"${version}"`;
+
+/**
+ * Version named by an If-Match header: "3" (or W/"3")
+ * Returns undefined without a header or for "*", and null when it names no version
+ */
+function parseIfMatch(header: string | undefined): number | null | undefined {
+  const value = header?.trim();
+  if (!value || value === '*') return undefined;
+
+  const match = /^(?:W\/)?"(\d+)"$/.exec(value);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * The 409 error for an update of a stale version
+ * Its details carry the current asset so the client can reconcile the edits.
+ */
+const versionConflict = (current: GeoJSONFeature, expectedVersion: number) =>
+  new ConflictError(`Asset was modified (version ${current.properties.version}, expected ${expectedVersion})`, {
+    current,
+  });
+
+/**
+ * The 400 error for one invalid field (JSON Pointer or header name)
+ */
+const invalidField = (field: string, message: string) => new ValidationError(message, [{ field, message }]);
+
+/**
+ * Throw a ValidationError when PostGIS cannot read a GeoJSON geometry
+ * Writes check their geometry first so that an invalid one answers 400.
+ */
+async function checkGeometry(geometry: unknown) {
+  try {
+    await sql`SELECT ST_GeomFromGeoJSON(${JSON.stringify(geometry)})`;
+  } catch (error) {
+    if (!(error instanceof postgres.PostgresError) || isDatabaseUnavailable(error)) throw error;
+
+    throw new ValidationError('geometry is not a valid GeoJSON geometry', [
+      { field: '/geometry', message: error.message },
+    ]);
+  }
+}
+
+/**
+ * Load a live asset of the tenant as a GeoJSON Feature
+ */
+async function findAssetFeature(tenant: string, id: string): Promise<GeoJSONFeature | undefined> {
+  const [asset] = await sql`
+    SELECT
+      id,
+      name,
+      type,
+      status,
+      ST_AsGeoJSON(geometry)::jsonb as geometry,
+      properties,
+      created_at,
+      updated_at,
+      version
+    FROM assets
+    WHERE id = ${id} AND tenant_id = ${tenant} AND deleted_at IS NULL
+  `;
+
+  if (!asset) return undefined;
+
+  return {
+    type: 'Feature',
+    id: asset.id,
+    geometry: asset.geometry,
+    properties: {
+      id: asset.id,
+      name: asset.name,
+      type: asset.type,
+      status: asset.status,
+      createdAt: asset.created_at,
+      updatedAt: asset.updated_at,
+      version: asset.version,
+      ...(asset.properties || {}),
+    },
+  };
+}
+
+/**
+ * Type of an asset of the tenant, live or in the trash
+ * Lets routes check a principal's permission before changing the asset.
+ */
+async function findAssetType(tenant: string, id: string): Promise<AssetType | undefined> {
+  const [asset] = await sql`SELECT type FROM assets WHERE id = ${id} AND tenant_id = ${tenant}`;
+  return asset?.type;
+}
+
+/**
+ * Body of POST /api/rules and PUT /api/rules/:id
+ */
+const ruleBody = t.Object({
+  name: t.String({ minLength: 1, maxLength: 255 }),
+  description: t.Optional(t.Nullable(t.String())),
+  assetType: t.Optional(
+    t.Nullable(
+      t.Union([
+        t.Literal('vehicle'),
+        t.Literal('incident'),
+        t.Literal('poi'),
+        t.Literal('zone'),
+        t.Literal('route'),
+      ])
+    )
+  ),
+  condition: t.Optional(t.Nullable(t.String())),
+  zoneId: t.Optional(t.Nullable(t.String({ format: 'uuid' }))),
+  severity: t.Optional(
+    t.Union([t.Literal('info'), t.Literal('success'), t.Literal('warning'), t.Literal('critical')])
+  ),
+  trigger: t.Optional(t.Union([t.Literal('transition'), t.Literal('always')])),
+  message: t.Optional(t.Nullable(t.String())),
+  enabled: t.Optional(t.Boolean()),
+});
+
 /**
  * API Routes for the geospatial dashboard
  */
 export const routes = new Elysia({ prefix: '/api' })
+  /**
+   * GET /api/health
+   * Health check endpoint, open to monitors without credentials
+   */
+  .get('/health', () => ({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    service: 'geospatial-dashboard-api',
+  }))
+
+  // Every route below requires an API key or a bearer token, and the
+  // permission it declares; it works on the data of the request's tenant
+  .use(authorization)
+  .use(tenancy)
+
+  /**
+   * GET /api/me
+   * The caller's identity, tenant, roles and permissions, by action the asset
+   * types it may be performed on (actions it may not perform are left out)
+   */
+  .get('/me', ({ principal, tenant }) => {
+    const { kind, id, name, roles, assetTypes } = principal!;
+    return { kind, id, name, tenant, roles, assetTypes, permissions: permissionsOf(principal!) };
+  })
+
   /**
    * GET /api/assets
-   * Returns all assets as a GeoJSON FeatureCollection
+   * Returns assets as a GeoJSON FeatureCollection with totalCount and
+   * nextCursor foreign members
    *
    * Query params:
    * - type: Filter by asset type (vehicle, incident, poi, zone, route)
    * - status: Filter by status (active, inactive, warning, critical)
    * - bbox: Bounding box filter "minLon,minLat,maxLon,maxLat"
+   * - asOf: ISO 8601 timestamp - return the assets as they stood at that time
+   * - limit: Page size (default 100, max 1000 when paging)
+   * - offset: Number of assets to skip
+   * - cursor: nextCursor of the previous page (keyset paging by updated_at, id)
+   * - filter: Expression on the columns and properties, e.g.
+   *   "properties.speed > 50 AND properties.sirens = true" (see expression.ts)
+   *
+   * Without limit, offset or cursor every matching asset is returned.
    */
   .get(
     '/assets',
-    async ({ query }) => {
-      try {
-        const { type, status, bbox } = query as AssetQueryParams;
+    async ({ query, tenant }) => {
+      const { type, status, bbox, asOf, limit, offset, cursor, filter } = query as AssetQueryParams;
 
-        // Build dynamic query based on filters
-        let sqlQuery;
+      const asOfDate = asOf ? parseAsOf(asOf) : undefined;
+      if (asOfDate === null) {
+        throw invalidField('/asOf', 'asOf must be an ISO 8601 timestamp');
+      }
 
-        if (!type && !status && !bbox) {
-          // No filters - use the optimized view
-          sqlQuery = sql`SELECT geojson FROM assets_geojson`;
-        } else {
-          // Build filtered query
-          let conditions = [sql`deleted_at IS NULL`];
+      const after = cursor ? decodeCursor(cursor) : undefined;
+      if (after === null) {
+        throw invalidField('/cursor', 'Invalid cursor');
+      }
 
-          if (type) {
-            conditions.push(sql`type = ${type}`);
-          }
+      let filterSql;
+      try {
+        filterSql = filter ? filterCondition(filter) : undefined;
+      } catch (error) {
+        if (error instanceof FilterSyntaxError) {
+          throw invalidField('/filter', `Invalid filter: ${error.message}`);
+        }
+        throw error;
+      }
 
-          if (status) {
-            conditions.push(sql`status = ${status}`);
-          }
+      const paginate = limit !== undefined || offset !== undefined || after !== undefined;
 
-          if (bbox) {
-            const [minLon, minLat, maxLon, maxLat] = bbox.split(',').map(Number);
-            if (minLon && minLat && maxLon && maxLat) {
-              conditions.push(sql`
-                ST_Within(
-                  geometry,
-                  ST_MakeEnvelope(${minLon}, ${minLat}, ${maxLon}, ${maxLat}, 4326)
-                )
-              `);
+      try {
+        if (!paginate) {
+          // Build dynamic query based on filters
+          let sqlQuery;
+
+          if (!type && !status && !bbox && !asOfDate && !filterSql) {
+            // No filters - use the optimized view
+            sqlQuery = sql`SELECT geojson FROM assets_geojson WHERE tenant_id = ${tenant}`;
+          } else {
+            // Build filtered query
+            const conditions = assetConditions(tenant, { type, status, bbox }, asOfDate);
+            if (filterSql) {
+              conditions.push(filterSql);
             }
+
+            // Build the GeoJSON query
+            sqlQuery = sql`
+              SELECT
+                jsonb_build_object(
+                  'type', 'FeatureCollection',
+                  'features', COALESCE(jsonb_agg(${assetFeature()}), '[]'::jsonb)
+                ) as geojson
+              FROM ${assetSource(asOfDate)}
+              WHERE ${whereClause(conditions)}
+            `;
           }
 
-          // Combine conditions with AND
-          const whereClause = conditions.reduce((acc, condition, i) => {
-            if (i === 0) return condition;
-            return sql`${acc} AND ${condition}`;
-          });
+          const result = await sqlQuery;
 
-          // Build the GeoJSON query
-          sqlQuery = sql`
-            SELECT
-              jsonb_build_object(
-                'type', 'FeatureCollection',
-                'features', COALESCE(jsonb_agg(
-                  jsonb_build_object(
-                    'type', 'Feature',
-                    'id', id,
-                    'geometry', ST_AsGeoJSON(geometry)::jsonb,
-                    'properties', jsonb_build_object(
-                      'id', id,
-                      'name', name,
-                      'type', type,
-                      'status', status,
-                      'created_at', created_at,
-                      'updated_at', updated_at
-                    ) || COALESCE(properties, '{}'::jsonb)
-                  )
-                ), '[]'::jsonb)
-              ) as geojson
-            FROM assets
-            WHERE ${whereClause}
-          `;
+          // Extract the GeoJSON from the result
+          const geojson: GeoJSONFeatureCollection =
+            result[0]?.geojson || { type: 'FeatureCollection', features: [] };
+
+          const page: AssetFeaturePage = {
+            ...geojson,
+            totalCount: geojson.features.length,
+            nextCursor: null,
+          };
+
+          return page;
         }
 
-        const result = await sqlQuery;
+        const pageSize = Math.min(Math.max(limit || 100, 1), 1000);
+        const skip = Math.max(offset || 0, 0);
+        const conditions = assetConditions(tenant, { type, status, bbox }, asOfDate);
+        if (filterSql) {
+          conditions.push(filterSql);
+        }
 
-        // Extract the GeoJSON from the result
-        const geojson: GeoJSONFeatureCollection =
-          result[0]?.geojson || { type: 'FeatureCollection', features: [] };
+        const [{ total }] = await sql`
+          SELECT COUNT(*)::int as total
+          FROM ${assetSource(asOfDate)}
+          WHERE ${whereClause(conditions)}
+        `;
 
-        return geojson;
+        if (after) {
+          conditions.push(afterCursor(after));
+        }
+
+        // One extra row tells whether there is a next page
+        const rows = await sql`
+          SELECT
+            id,
+            to_char(updated_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') as cursor_updated_at,
+            ${assetFeature()} as feature
+          FROM ${assetSource(asOfDate)}
+          WHERE ${whereClause(conditions)}
+          ORDER BY updated_at, id
+          LIMIT ${pageSize + 1}
+          OFFSET ${skip}
+        `;
+
+        const features = rows.slice(0, pageSize);
+        const last = features[features.length - 1];
+
+        const page: AssetFeaturePage = {
+          type: 'FeatureCollection',
+          features: features.map((row) => row.feature),
+          totalCount: total,
+          nextCursor:
+            rows.length > pageSize ? encodeCursor({ updatedAt: last.cursor_updated_at, id: last.id }) : null,
+        };
+
+        return page;
       } catch (error) {
-        console.error('Error fetching assets:', error);
-        throw new Error('Failed to fetch assets');
+        throw toApiError(error, 'Failed to fetch assets');
       }
     },
     {
+      permission: 'assets:read',
       query: t.Object({
         type: t.Optional(t.String()),
         status: t.Optional(t.String()),
         bbox: t.Optional(t.String()),
+        asOf: t.Optional(t.String()),
+        limit: t.Optional(t.Numeric()),
+        offset: t.Optional(t.Numeric()),
+        cursor: t.Optional(t.String()),
+        filter: t.Optional(t.String()),
       }),
     }
   )
 
   /**
    * POST /api/notifications/subscribe
-   * Register or update a push subscription
+   * Register or update a push subscription to the notifications of the tenant
    */
   .post(
     '/notifications/subscribe',
-    async ({ body, request }) => {
+    async ({ body, request, tenant }) => {
       const userAgent = request.headers.get('user-agent') || null;
-      const subscription = await savePushSubscription(body, userAgent);
+      const subscription = await savePushSubscription(tenant, body, userAgent);
 
       return {
         success: true,
@@ -131,6 +381,7 @@ export const routes = new Elysia({ prefix: '/api' })
       };
     },
     {
+      permission: 'notifications:subscribe',
       body: t.Object({
         endpoint: t.String(),
         expirationTime: t.Optional(t.Nullable(t.Number())),
@@ -144,15 +395,16 @@ export const routes = new Elysia({ prefix: '/api' })
 
   /**
    * DELETE /api/notifications/subscribe
-   * Remove a push subscription by endpoint
+   * Remove a push subscription to the tenant by endpoint
    */
   .delete(
     '/notifications/subscribe',
-    async ({ body }) => {
-      await deletePushSubscription(body.endpoint);
+    async ({ body, tenant }) => {
+      await deletePushSubscription(tenant, body.endpoint);
       return { success: true };
     },
     {
+      permission: 'notifications:subscribe',
       body: t.Object({
         endpoint: t.String(),
       }),
@@ -161,15 +413,16 @@ export const routes = new Elysia({ prefix: '/api' })
 
   /**
    * POST /api/notifications/test
-   * Trigger a manual notification (for testing integrations)
+   * Trigger a manual notification to the tenant (for testing integrations)
    */
   .post(
     '/notifications/test',
-    ({ body }) => {
+    ({ body, tenant }) => {
       const severity = body.severity as NotificationSeverity | undefined;
 
       notificationCenter.publish(
         {
+          tenant,
           type: body.type || 'custom',
           title: body.title || 'Test notification',
           message: body.message || 'This is a manually triggered notification.',
@@ -182,6 +435,7 @@ export const routes = new Elysia({ prefix: '/api' })
       return { success: true };
     },
     {
+      permission: 'notifications:publish',
       body: t.Object({
         type: t.Optional(t.String()),
         title: t.Optional(t.String()),
@@ -194,42 +448,434 @@ export const routes = new Elysia({ prefix: '/api' })
     }
   )
 
+  /**
+   * GET /api/assets/export
+   * Download assets as KML, GPX, CSV (WKT geometry) or a zipped Shapefile
+   *
+   * Query params:
+   * - format: kml | gpx | csv | shp
+   * - type, status, bbox, asOf: Same filters as GET /api/assets
+   */
+  .get(
+    '/assets/export',
+    async ({ query, tenant }) => {
+      const { type, status, bbox, asOf } = query as AssetQueryParams;
+
+      const asOfDate = asOf ? parseAsOf(asOf) : undefined;
+      if (asOfDate === null) {
+        throw invalidField('/asOf', 'asOf must be an ISO 8601 timestamp');
+      }
+
+      try {
+        const file = await exportAssets(query.format as ExportFormat, tenant, { type, status, bbox }, asOfDate);
+
+        return new Response(file.body, {
+          headers: {
+            'content-type': file.contentType,
+            'content-disposition': `attachment; filename="${file.filename}"`,
+          },
+        });
+      } catch (error) {
+        throw toApiError(error, 'Failed to export assets');
+      }
+    },
+    {
+      permission: 'assets:read',
+      query: t.Object({
+        format: t.Union([t.Literal('kml'), t.Literal('gpx'), t.Literal('csv'), t.Literal('shp')]),
+        type: t.Optional(t.String()),
+        status: t.Optional(t.String()),
+        bbox: t.Optional(t.String()),
+        asOf: t.Optional(t.String()),
+      }),
+    }
+  )
+
+  /**
+   * GET /api/assets/deleted
+   * List soft-deleted assets (the trash), most recently deleted first
+   *
+   * Query params:
+   * - type: Filter by asset type
+   * - deletedAfter: Only assets deleted at or after this ISO 8601 timestamp
+   * - deletedBefore: Only assets deleted before this ISO 8601 timestamp
+   * - limit: Maximum number of assets to return (default 50, max 200)
+   * - offset: Number of assets to skip
+   */
+  .get(
+    '/assets/deleted',
+    async ({ query, tenant }) => {
+      const deletedAfter = query.deletedAfter ? parseAsOf(query.deletedAfter) : undefined;
+      const deletedBefore = query.deletedBefore ? parseAsOf(query.deletedBefore) : undefined;
+      if (deletedAfter === null) {
+        throw invalidField('/deletedAfter', 'deletedAfter must be an ISO 8601 timestamp');
+      }
+
+      if (deletedBefore === null) {
+        throw invalidField('/deletedBefore', 'deletedBefore must be an ISO 8601 timestamp');
+      }
+
+      try {
+        const limit = Math.min(Math.max(Number(query.limit) || 50, 1), 200);
+        const offset = Math.max(Number(query.offset) || 0, 0);
+
+        const conditions = [sql`deleted_at IS NOT NULL`, sql`tenant_id = ${tenant}`];
+
+        if (query.type) {
+          conditions.push(sql`type = ${query.type}`);
+        }
+
+        if (deletedAfter) {
+          conditions.push(sql`deleted_at >= ${deletedAfter}`);
+        }
+
+        if (deletedBefore) {
+          conditions.push(sql`deleted_at < ${deletedBefore}`);
+        }
+
+        const [{ total }] = await sql`
+          SELECT COUNT(*)::int as total
+          FROM assets
+          WHERE ${whereClause(conditions)}
+        `;
+
+        const assets = await sql`
+          SELECT
+            id,
+            name,
+            type,
+            status,
+            ST_AsGeoJSON(geometry)::jsonb as geometry,
+            properties,
+            created_at,
+            updated_at,
+            deleted_at
+          FROM assets
+          WHERE ${whereClause(conditions)}
+          ORDER BY deleted_at DESC, id
+          LIMIT ${limit}
+          OFFSET ${offset}
+        `;
+
+        const page: DeletedAssetsPage = {
+          assets: assets.map(
+            (asset): DeletedAsset => ({
+              id: asset.id,
+              name: asset.name,
+              type: asset.type,
+              status: asset.status,
+              geometry: asset.geometry,
+              properties: asset.properties || {},
+              createdAt: asset.created_at,
+              updatedAt: asset.updated_at,
+              deletedAt: asset.deleted_at,
+            })
+          ),
+          total,
+          limit,
+          offset,
+        };
+
+        return page;
+      } catch (error) {
+        throw toApiError(error, 'Failed to fetch deleted assets');
+      }
+    },
+    {
+      permission: 'assets:read',
+      query: t.Object({
+        type: t.Optional(t.String()),
+        deletedAfter: t.Optional(t.String()),
+        deletedBefore: t.Optional(t.String()),
+        limit: t.Optional(t.Numeric()),
+        offset: t.Optional(t.Numeric()),
+      }),
+    }
+  )
+
+  /**
+   * GET /api/assets/nearest
+   * The k assets closest to a point, nearest first
+   *
+   * Query params:
+   * - lon, lat: The point (WGS84)
+   * - k: Number of assets to return (default 5, max 100)
+   * - type, status: Optional filters
+   *
+   * Candidates come from the <-> KNN operator on idx_assets_geometry. KNN
+   * orders by planar distance in degrees, so a few extra candidates are
+   * fetched and then re-ranked by geodesic distance.
+   */
+  .get(
+    '/assets/nearest',
+    async ({ query, tenant }) => {
+      const { lon, lat } = query;
+
+      if (lon < -180 || lon > 180) {
+        throw invalidField('/lon', 'lon must be within [-180, 180]');
+      }
+
+      if (lat < -90 || lat > 90) {
+        throw invalidField('/lat', 'lat must be within [-90, 90]');
+      }
+
+      try {
+        const k = Math.min(Math.max(query.k || 5, 1), 100);
+        const candidates = Math.max(k * NEAREST_CANDIDATE_FACTOR, NEAREST_MIN_CANDIDATES);
+        const conditions = assetConditions(tenant, {
+          type: query.type as AssetType | undefined,
+          status: query.status as AssetStatus | undefined,
+        });
+        const point = sql`ST_SetSRID(ST_MakePoint(${lon}, ${lat}), 4326)`;
+
+        const [result] = await sql`
+          WITH candidates AS (
+            SELECT *
+            FROM assets
+            WHERE ${whereClause(conditions)}
+            ORDER BY geometry <-> ${point}
+            LIMIT ${candidates}
+          ),
+          ranked AS (
+            SELECT
+              *,
+              ST_Distance(geometry::geography, ${point}::geography) as distance_meters
+            FROM candidates
+            ORDER BY distance_meters, id
+            LIMIT ${k}
+          )
+          SELECT jsonb_build_object(
+            'type', 'FeatureCollection',
+            'features', COALESCE(jsonb_agg(
+              jsonb_set(
+                ${assetFeature()},
+                '{properties,distance_meters}',
+                to_jsonb(round(distance_meters::numeric, 1))
+              )
+              ORDER BY distance_meters, id
+            ), '[]'::jsonb)
+          ) as geojson
+          FROM ranked
+        `;
+
+        const geojson: GeoJSONFeatureCollection = result.geojson;
+
+        return geojson;
+      } catch (error) {
+        throw toApiError(error, 'Failed to find nearest assets');
+      }
+    },
+    {
+      permission: 'assets:read',
+      query: t.Object({
+        lon: t.Numeric(),
+        lat: t.Numeric(),
+        k: t.Optional(t.Numeric()),
+        type: t.Optional(t.String()),
+        status: t.Optional(t.String()),
+      }),
+    }
+  )
+
   /**
    * GET /api/assets/:id
-   * Get a single asset by ID
+   * Get a single asset by ID as a GeoJSON Feature
+   * The ETag header holds its version, for If-Match on updates.
    */
-  .get('/assets/:id', async ({ params: { id } }) => {
+  .get('/assets/:id', async ({ params: { id }, set, tenant }) => {
     try {
-      const result = await sql`
-        SELECT
-          id,
-          name,
-          type,
-          status,
-          ST_AsGeoJSON(geometry)::jsonb as geometry,
-          properties,
-          created_at,
-          updated_at
-        FROM assets
-        WHERE id = ${id} AND deleted_at IS NULL
-      `;
+      const feature = await findAssetFeature(tenant, id);
 
-      if (result.length === 0) {
-        throw new Error('Asset not found');
+      if (!feature) {
+        throw new NotFoundError('Asset not found');
       }
 
-      return result[0];
+      set.headers['etag'] = assetETag(feature.properties.version!);
+      return feature;
     } catch (error) {
-      console.error('Error fetching asset:', error);
-      throw new Error('Asset not found');
+      throw toApiError(error, 'Failed to fetch asset');
     }
-  })
+  }, { permission: 'assets:read' })
+
+  /**
+   * GET /api/assets/:id/history
+   * Get the change history of an asset, newest version first
+   *
+   * Query params:
+   * - limit: Maximum number of versions to return (default 20, max 100)
+   * - offset: Number of versions to skip
+   */
+  .get(
+    '/assets/:id/history',
+    async ({ params: { id }, query, tenant }) => {
+      try {
+        const limit = Math.min(Math.max(Number(query.limit) || 20, 1), 100);
+        const offset = Math.max(Number(query.offset) || 0, 0);
+
+        const [{ total }] = await sql`
+          SELECT COUNT(*)::int as total
+          FROM asset_history
+          WHERE asset_id = ${id} AND tenant_id = ${tenant}
+        `;
+
+        if (total === 0) {
+          throw new NotFoundError('Asset not found');
+        }
+
+        const versions = await sql`
+          SELECT
+            version,
+            operation,
+            changed_at,
+            CASE WHEN operation = 'create' THEN NULL ELSE jsonb_build_object(
+              'name', old_name,
+              'type', old_type,
+              'status', old_status,
+              'geometry', ST_AsGeoJSON(old_geometry)::jsonb,
+              'properties', COALESCE(old_properties, '{}'::jsonb)
+            ) END as old_values,
+            jsonb_build_object(
+              'name', new_name,
+              'type', new_type,
+              'status', new_status,
+              'geometry', ST_AsGeoJSON(new_geometry)::jsonb,
+              'properties', COALESCE(new_properties, '{}'::jsonb)
+            ) as new_values
+          FROM asset_history
+          WHERE asset_id = ${id} AND tenant_id = ${tenant}
+          ORDER BY version DESC
+          LIMIT ${limit}
+          OFFSET ${offset}
+        `;
+
+        const page: AssetHistoryPage = {
+          assetId: id,
+          versions: versions.map(
+            (row): AssetVersion => ({
+              version: row.version,
+              operation: row.operation,
+              changedAt: row.changed_at,
+              oldValues: row.old_values,
+              newValues: row.new_values,
+            })
+          ),
+          total,
+          limit,
+          offset,
+        };
+
+        return page;
+      } catch (error) {
+        throw toApiError(error, 'Failed to fetch asset history');
+      }
+    },
+    {
+      permission: 'assets:read',
+      query: t.Object({
+        limit: t.Optional(t.Numeric()),
+        offset: t.Optional(t.Numeric()),
+      }),
+    }
+  )
+
+  /**
+   * GET /api/assets/:id/track
+   * Get the recorded positions of a vehicle as a timestamped track
+   *
+   * Query params:
+   * - from: ISO 8601 start of the window (default 24 hours before "to")
+   * - to: ISO 8601 end of the window (default now)
+   *
+   * The geometry is a LineString, or a MultiPoint when fewer than two positions
+   * were recorded. properties.timestamps, speeds and headings are parallel to
+   * the coordinates. Only the latest 10000 positions of the window are returned.
+   */
+  .get(
+    '/assets/:id/track',
+    async ({ params: { id }, query, tenant }) => {
+      const to = query.to ? parseAsOf(query.to) : new Date();
+      const from = query.from
+        ? parseAsOf(query.from)
+        : to && new Date(to.getTime() - TRACK_DEFAULT_HOURS * 60 * 60 * 1000);
+
+      if (!to) {
+        throw invalidField('/to', 'to must be an ISO 8601 timestamp');
+      }
+
+      if (!from) {
+        throw invalidField('/from', 'from must be an ISO 8601 timestamp');
+      }
+
+      if (from > to) {
+        throw invalidField('/from', 'from must not be after to');
+      }
+
+      try {
+        const [asset] = await sql`
+          SELECT id, name FROM assets WHERE id = ${id} AND tenant_id = ${tenant}
+        `;
+
+        if (!asset) {
+          throw new NotFoundError('Asset not found');
+        }
+
+        const positions = await sql`
+          SELECT *
+          FROM (
+            SELECT
+              id,
+              ST_X(position) as lon,
+              ST_Y(position) as lat,
+              speed,
+              heading,
+              recorded_at
+            FROM asset_positions
+            WHERE asset_id = ${id}
+              AND recorded_at BETWEEN ${from} AND ${to}
+            ORDER BY recorded_at DESC, id DESC
+            LIMIT ${TRACK_MAX_POSITIONS}
+          ) latest
+          ORDER BY recorded_at, id
+        `;
+
+        const track: AssetTrack = {
+          type: 'Feature',
+          id: asset.id,
+          geometry: {
+            type: positions.length >= 2 ? 'LineString' : 'MultiPoint',
+            coordinates: positions.map((row) => [row.lon, row.lat]),
+          },
+          properties: {
+            assetId: asset.id,
+            name: asset.name,
+            from: from.toISOString(),
+            to: to.toISOString(),
+            count: positions.length,
+            timestamps: positions.map((row) => new Date(row.recorded_at).toISOString()),
+            speeds: positions.map((row) => row.speed),
+            headings: positions.map((row) => row.heading),
+          },
+        };
+
+        return track;
+      } catch (error) {
+        throw toApiError(error, 'Failed to fetch asset track');
+      }
+    },
+    {
+      permission: 'assets:read',
+      query: t.Object({
+        from: t.Optional(t.String()),
+        to: t.Optional(t.String()),
+      }),
+    }
+  )
 
   /**
    * GET /api/layers/:layerType
    * Get assets for a specific layer (vehicles, incidents, etc.)
    */
-  .get('/layers/:layerType', async ({ params: { layerType } }) => {
+  .get('/layers/:layerType', async ({ params: { layerType }, tenant }) => {
     try {
       // Map layer type to view name
       const viewMap: Record<string, string> = {
@@ -256,48 +902,368 @@ export const routes = new Elysia({ prefix: '/api' })
                     'type', type,
                     'status', status,
                     'created_at', created_at,
-                    'updated_at', updated_at
+                    'updated_at', updated_at,
+                    'version', version
                   ) || COALESCE(properties, '{}'::jsonb)
                 )
               ), '[]'::jsonb)
             ) as geojson
           FROM assets
-          WHERE type = ${layerType} AND deleted_at IS NULL
+          WHERE type = ${layerType} AND tenant_id = ${tenant} AND deleted_at IS NULL
+        `;
+
+        return result[0]?.geojson || { type: 'FeatureCollection', features: [] };
+      }
+
+      // Use the optimized view
+      const result = await sql`SELECT geojson FROM ${sql(viewName)} WHERE tenant_id = ${tenant}`;
+
+      return result[0]?.geojson || { type: 'FeatureCollection', features: [] };
+    } catch (error) {
+      throw toApiError(error, 'Failed to fetch layer');
+    }
+  }, { permission: 'assets:read' })
+
+  /**
+   * POST /api/assets
+   * Create a new asset
+   */
+  .post(
+    '/assets',
+    async ({ body, principal, tenant }) => {
+      if (!can(principal!, 'assets:create', body.type)) {
+        throw forbidden(principal!, 'assets:create', body.type);
+      }
+
+      await checkGeometry(body.geometry);
+
+      try {
+        const { name, type, status, geometry, properties } = body;
+
+        // Convert GeoJSON geometry to PostGIS geometry using ST_GeomFromGeoJSON
+        const result = await sql`
+          INSERT INTO assets (tenant_id, name, type, status, geometry, properties)
+          VALUES (
+            ${tenant},
+            ${name},
+            ${type},
+            ${status},
+            ST_SetSRID(ST_GeomFromGeoJSON(${JSON.stringify(geometry)}), 4326),
+            ${properties ? sql`${JSON.stringify(properties)}::jsonb` : sql`'{}'::jsonb`}
+          )
+          RETURNING
+            id,
+            name,
+            type,
+            status,
+            ST_AsGeoJSON(geometry)::jsonb as geometry,
+            properties,
+            created_at,
+            updated_at,
+            version
+        `;
+
+        if (result.length === 0) {
+          throw new Error('Failed to create asset');
+        }
+
+        // Build GeoJSON Feature response
+        const asset = result[0];
+        const feature: GeoJSONFeature = {
+          type: 'Feature',
+          id: asset.id,
+          geometry: asset.geometry,
+          properties: {
+            id: asset.id,
+            name: asset.name,
+            type: asset.type,
+            status: asset.status,
+            createdAt: asset.created_at,
+            updatedAt: asset.updated_at,
+            version: asset.version,
+            ...(asset.properties || {}),
+          },
+        };
+
+        emitAssetNotification({
+          tenant,
+          action: 'created',
+          assetName: asset.name,
+          severity: 'success',
+          data: { feature },
+        });
+        emitAssetChange({ id: asset.id, tenant, type: asset.type, operation: 'create' });
+
+        return feature;
+      } catch (error) {
+        throw toApiError(error, 'Failed to create asset');
+      }
+    },
+    {
+      permission: 'assets:create',
+      body: assetBody,
+    }
+  )
+
+  /**
+   * POST /api/assets/search
+   * Assets matching a spatial predicate against a GeoJSON geometry
+   *
+   * Body:
+   * - geometry: GeoJSON geometry (WGS84)
+   * - predicate: "intersects" (default), "within", "contains" or "dwithin"
+   * - distance: Distance in metres, required for "dwithin"
+   * - type, status: Optional filters
+   */
+  .post(
+    '/assets/search',
+    async ({ body, tenant }) => {
+      const { geometry, predicate = 'intersects', distance, type, status } = body;
+
+      if (predicate === 'dwithin' && distance === undefined) {
+        throw invalidField('/distance', 'distance (metres) is required for the dwithin predicate');
+      }
+
+      await checkGeometry(geometry);
+
+      try {
+        const conditions = assetConditions(tenant, { type, status });
+        conditions.push(spatialCondition(predicate, geometry, distance));
+
+        const [result] = await sql`
+          SELECT jsonb_build_object(
+            'type', 'FeatureCollection',
+            'features', COALESCE(jsonb_agg(${assetFeature()} ORDER BY type, name, id), '[]'::jsonb)
+          ) as geojson
+          FROM assets
+          WHERE ${whereClause(conditions)}
         `;
 
-        return result[0]?.geojson || { type: 'FeatureCollection', features: [] };
+        const geojson: GeoJSONFeatureCollection = result.geojson;
+
+        return geojson;
+      } catch (error) {
+        throw toApiError(error, 'Failed to search assets');
+      }
+    },
+    {
+      permission: 'assets:read',
+      body: t.Object({
+        geometry: t.Object({
+          type: t.Union([
+            t.Literal('Point'),
+            t.Literal('LineString'),
+            t.Literal('Polygon'),
+            t.Literal('MultiPoint'),
+            t.Literal('MultiLineString'),
+            t.Literal('MultiPolygon'),
+          ]),
+          coordinates: t.Array(t.Any()),
+        }),
+        predicate: t.Optional(
+          t.Union([
+            t.Literal('intersects'),
+            t.Literal('within'),
+            t.Literal('contains'),
+            t.Literal('dwithin'),
+          ])
+        ),
+        distance: t.Optional(t.Number({ minimum: 0 })),
+        type: t.Optional(
+          t.Union([
+            t.Literal('vehicle'),
+            t.Literal('incident'),
+            t.Literal('poi'),
+            t.Literal('zone'),
+            t.Literal('route'),
+          ])
+        ),
+        status: t.Optional(
+          t.Union([
+            t.Literal('active'),
+            t.Literal('inactive'),
+            t.Literal('warning'),
+            t.Literal('critical'),
+          ])
+        ),
+      }),
+    }
+  )
+
+  /**
+   * POST /api/assets/import
+   * Bulk import a GeoJSON FeatureCollection
+   *
+   * Body:
+   * - featureCollection: GeoJSON FeatureCollection to import
+   * - mapping: Feature property keys to read name/type/status from
+   * - defaults: type/status used when a feature doesn't carry one
+   * - mode: "atomic" (all or nothing, default) or "best_effort"
+   *
+   * Returns a report listing the created and rejected features
+   */
+  .post(
+    '/assets/import',
+    async ({ body, principal, set, tenant }) => {
+      try {
+        const { featureCollection, mapping, defaults, mode } = body;
+
+        // Features of types the principal may not create are rejected
+        const report = await importFeatures(tenant, featureCollection.features, {
+          mapping,
+          defaults: defaults as ImportOptions['defaults'],
+          mode,
+          allowedTypes: allowedTypes(principal!, 'assets:import'),
+        });
+
+        if (report.created.length > 0) {
+          // One notification for the whole batch instead of one per feature
+          emitAssetNotification({
+            tenant,
+            action: 'imported',
+            assetName: `${report.created.length} assets`,
+            message: `${report.created.length} of ${report.total} features were imported.`,
+            severity: report.rejected.length > 0 ? 'warning' : 'success',
+            data: {
+              ids: report.created.map((feature) => feature.id),
+              rejected: report.rejected.length,
+            },
+          });
+
+          report.created.forEach((feature) =>
+            emitAssetChange({ id: feature.id, tenant, type: feature.type, operation: 'create' })
+          );
+        }
+
+        if (!report.committed && report.total > 0) {
+          set.status = 422;
+        }
+
+        return report;
+      } catch (error) {
+        throw toApiError(error, 'Failed to import assets');
+      }
+    },
+    {
+      permission: 'assets:import',
+      body: t.Object({
+        featureCollection: t.Object({
+          type: t.Literal('FeatureCollection'),
+          features: t.Array(t.Any(), { maxItems: 10000 }),
+        }),
+        mapping: t.Optional(
+          t.Object({
+            name: t.Optional(t.String()),
+            type: t.Optional(t.String()),
+            status: t.Optional(t.String()),
+          })
+        ),
+        defaults: t.Optional(
+          t.Object({
+            type: t.Optional(
+              t.Union([
+                t.Literal('vehicle'),
+                t.Literal('incident'),
+                t.Literal('poi'),
+                t.Literal('zone'),
+                t.Literal('route'),
+              ])
+            ),
+            status: t.Optional(
+              t.Union([
+                t.Literal('active'),
+                t.Literal('inactive'),
+                t.Literal('warning'),
+                t.Literal('critical'),
+              ])
+            ),
+          })
+        ),
+        mode: t.Optional(t.Union([t.Literal('atomic'), t.Literal('best_effort')])),
+      }),
+    }
+  )
+
+  /**
+   * POST /api/telemetry
+   * Bulk ingest of position fixes of the tenant's vehicles
+   *
+   * Body:
+   * - fixes: [{ assetId | externalId, lon, lat, timestamp, speed?, heading? }]
+   *
+   * Fixes are recorded in the vehicle tracks and each vehicle moves to its
+   * newest fix. Fixes not newer than a vehicle's latest position are ignored.
+   * Moved vehicles reach WebSocket clients as asset_update messages (through
+   * the asset_changes trigger) without a notification. Returns a report with the rejected fixes.
+   */
+  .post(
+    '/telemetry',
+    async ({ body, tenant }) => {
+      try {
+        const { report, updated } = await ingestTelemetry(tenant, body.fixes);
+
+        updated.forEach((feature) =>
+          emitAssetChange({ id: feature.id, tenant, type: feature.properties.type, operation: 'geometry_update' })
+        );
+
+        return report;
+      } catch (error) {
+        throw toApiError(error, 'Failed to ingest telemetry');
+      }
+    },
+    {
+      permission: 'telemetry:ingest',
+      body: t.Object({
+        fixes: t.Array(t.Any(), { maxItems: 10000 }),
+      }),
+    }
+  )
+
+  /**
+   * PUT /api/assets/:id
+   * Update an existing asset
+   *
+   * With an If-Match header (or a version field) the update only applies to
+   * that version of the asset; otherwise it answers 409 with the current one.
+   */
+  .put(
+    '/assets/:id',
+    async ({ params: { id }, body, headers, principal, set, tenant }) => {
+      const currentType = await findAssetType(tenant, id);
+
+      // Changing the type needs the permission for both types
+      for (const type of new Set([currentType, body.type])) {
+        if (type && !can(principal!, 'assets:update', type)) {
+          throw forbidden(principal!, 'assets:update', type);
+        }
       }
 
-      // Use the optimized view
-      const result = await sql`SELECT geojson FROM ${sql(viewName)}`;
+      const ifMatch = parseIfMatch(headers['if-match']);
+      if (ifMatch === null) {
+        throw invalidField('If-Match', 'If-Match must be an asset version ETag, e.g. "3"');
+      }
 
-      return result[0]?.geojson || { type: 'FeatureCollection', features: [] };
-    } catch (error) {
-      console.error('Error fetching layer:', error);
-      throw new Error('Failed to fetch layer');
-    }
-  })
+      const expectedVersion = ifMatch ?? body.version;
+
+      await checkGeometry(body.geometry);
 
-  /**
-   * POST /api/assets
-   * Create a new asset
-   */
-  .post(
-    '/assets',
-    async ({ body }) => {
       try {
         const { name, type, status, geometry, properties } = body;
 
-        // Convert GeoJSON geometry to PostGIS geometry using ST_GeomFromGeoJSON
+        // Update asset with new values
         const result = await sql`
-          INSERT INTO assets (name, type, status, geometry, properties)
-          VALUES (
-            ${name},
-            ${type},
-            ${status},
-            ST_SetSRID(ST_GeomFromGeoJSON(${JSON.stringify(geometry)}), 4326),
-            ${properties ? sql`${JSON.stringify(properties)}::jsonb` : sql`'{}'::jsonb`}
-          )
+          UPDATE assets
+          SET
+            name = ${name},
+            type = ${type},
+            status = ${status},
+            geometry = ST_SetSRID(ST_GeomFromGeoJSON(${JSON.stringify(geometry)}), 4326),
+            properties = ${properties ? sql`${JSON.stringify(properties)}::jsonb` : sql`'{}'::jsonb`},
+            updated_at = NOW()
+          WHERE id = ${id}
+            AND tenant_id = ${tenant}
+            AND deleted_at IS NULL
+            ${expectedVersion === undefined ? sql`` : sql`AND version = ${expectedVersion}`}
           RETURNING
             id,
             name,
@@ -306,11 +1272,19 @@ export const routes = new Elysia({ prefix: '/api' })
             ST_AsGeoJSON(geometry)::jsonb as geometry,
             properties,
             created_at,
-            updated_at
+            updated_at,
+            version
         `;
 
         if (result.length === 0) {
-          throw new Error('Failed to create asset');
+          const current = expectedVersion === undefined ? undefined : await findAssetFeature(tenant, id);
+
+          if (current) {
+            set.headers['etag'] = assetETag(current.properties.version!);
+            throw versionConflict(current, expectedVersion!);
+          }
+
+          throw new NotFoundError('Asset not found or already deleted');
         }
 
         // Build GeoJSON Feature response
@@ -326,86 +1300,130 @@ export const routes = new Elysia({ prefix: '/api' })
             status: asset.status,
             createdAt: asset.created_at,
             updatedAt: asset.updated_at,
+            version: asset.version,
             ...(asset.properties || {}),
           },
         };
 
         emitAssetNotification({
-          action: 'created',
+          tenant,
+          action: 'updated',
           assetName: asset.name,
-          severity: 'success',
+          severity: 'info',
           data: { feature },
         });
+        emitAssetChange({ id: asset.id, tenant, type: asset.type, operation: 'update' });
 
+        set.headers['etag'] = assetETag(asset.version);
         return feature;
       } catch (error) {
-        console.error('Error creating asset:', error);
-        throw new Error('Failed to create asset');
+        throw toApiError(error, 'Failed to update asset');
       }
     },
     {
-      body: t.Object({
-        name: t.String({ minLength: 1, maxLength: 255 }),
-        type: t.Union([
-          t.Literal('vehicle'),
-          t.Literal('incident'),
-          t.Literal('poi'),
-          t.Literal('zone'),
-          t.Literal('route'),
-        ]),
-        status: t.Union([
-          t.Literal('active'),
-          t.Literal('inactive'),
-          t.Literal('warning'),
-          t.Literal('critical'),
-        ]),
-        geometry: t.Object({
-          type: t.String(),
-          coordinates: t.Any(),
-        }),
-        properties: t.Optional(t.Record(t.String(), t.Any())),
-      }),
+      permission: 'assets:update',
+      body: assetUpdateBody,
     }
   )
 
   /**
-   * PUT /api/assets/:id
-   * Update an existing asset
+   * PATCH /api/assets/:id
+   * Change some of the name, status and properties of an asset
+   *
+   * The body is a JSON Merge Patch (RFC 7396), or a JSON Patch (RFC 6902) with
+   * Content-Type application/json-patch+json. Honours If-Match like PUT.
+   * Notifications and WebSocket clients receive the net change as a merge patch.
    */
-  .put(
+  .patch(
     '/assets/:id',
-    async ({ params: { id }, body }) => {
+    async ({ params: { id }, body, headers, principal, set, tenant }) => {
+      const type = await findAssetType(tenant, id);
+      if (type && !can(principal!, 'assets:update', type)) {
+        throw forbidden(principal!, 'assets:update', type);
+      }
+
+      const contentType = headers['content-type']?.split(';')[0].trim().toLowerCase() || MERGE_PATCH_TYPE;
+      if (![MERGE_PATCH_TYPE, JSON_PATCH_TYPE, 'application/json'].includes(contentType)) {
+        throw new ApiError(
+          415,
+          'UNSUPPORTED_MEDIA_TYPE',
+          `Content-Type must be ${MERGE_PATCH_TYPE} or ${JSON_PATCH_TYPE}`
+        );
+      }
+
+      const expectedVersion = parseIfMatch(headers['if-match']);
+      if (expectedVersion === null) {
+        throw invalidField('If-Match', 'If-Match must be an asset version ETag, e.g. "3"');
+      }
+
       try {
-        const { name, type, status, geometry, properties } = body;
+        const outcome = await sql.begin(async (sql) => {
+          const [current] = await sql`
+            SELECT name, status, properties, version
+            FROM assets
+            WHERE id = ${id} AND tenant_id = ${tenant} AND deleted_at IS NULL
+            FOR UPDATE
+          `;
 
-        // Update asset with new values
-        const result = await sql`
-          UPDATE assets
-          SET
-            name = ${name},
-            type = ${type},
-            status = ${status},
-            geometry = ST_SetSRID(ST_GeomFromGeoJSON(${JSON.stringify(geometry)}), 4326),
-            properties = ${properties ? sql`${JSON.stringify(properties)}::jsonb` : sql`'{}'::jsonb`},
-            updated_at = NOW()
-          WHERE id = ${id} AND deleted_at IS NULL
-          RETURNING
-            id,
-            name,
-            type,
-            status,
-            ST_AsGeoJSON(geometry)::jsonb as geometry,
-            properties,
-            created_at,
-            updated_at
-        `;
+          if (!current) return { status: 'missing' as const };
 
-        if (result.length === 0) {
-          throw new Error('Asset not found or already deleted');
+          if (expectedVersion !== undefined && current.version !== expectedVersion) {
+            return { status: 'conflict' as const };
+          }
+
+          const before = { name: current.name, status: current.status, properties: current.properties || {} };
+          const after = patchAsset(before, body, contentType);
+          const change = createMergePatch(before, after);
+
+          // Nothing changed: the asset keeps its version and nobody is told
+          if (!change) return { status: 'unchanged' as const };
+
+          await sql`SELECT set_config('app.asset_patch', ${JSON.stringify({ id, patch: change })}, true)`;
+
+          const [asset] = await sql`
+            UPDATE assets
+            SET
+              name = ${after.name},
+              status = ${after.status},
+              properties = ${JSON.stringify(after.properties)}::jsonb,
+              updated_at = NOW()
+            WHERE id = ${id}
+            RETURNING
+              id,
+              name,
+              type,
+              status,
+              ST_AsGeoJSON(geometry)::jsonb as geometry,
+              properties,
+              created_at,
+              updated_at,
+              version
+          `;
+
+          return { status: 'patched' as const, asset, change };
+        });
+
+        if (outcome.status === 'missing') {
+          throw new NotFoundError('Asset not found or already deleted');
+        }
+
+        if (outcome.status !== 'patched') {
+          const current = await findAssetFeature(tenant, id);
+          if (!current) {
+            throw new NotFoundError('Asset not found or already deleted');
+          }
+
+          set.headers['etag'] = assetETag(current.properties.version!);
+
+          if (outcome.status === 'conflict') {
+            throw versionConflict(current, expectedVersion!);
+          }
+
+          return current;
         }
 
         // Build GeoJSON Feature response
-        const asset = result[0];
+        const { asset, change } = outcome;
         const feature: GeoJSONFeature = {
           type: 'Feature',
           id: asset.id,
@@ -417,45 +1435,34 @@ export const routes = new Elysia({ prefix: '/api' })
             status: asset.status,
             createdAt: asset.created_at,
             updatedAt: asset.updated_at,
+            version: asset.version,
             ...(asset.properties || {}),
           },
         };
 
         emitAssetNotification({
+          tenant,
           action: 'updated',
           assetName: asset.name,
           severity: 'info',
-          data: { feature },
+          data: { id: asset.id, version: asset.version, patch: change },
         });
+        emitAssetChange({ id: asset.id, tenant, type: asset.type, operation: 'update' });
 
+        set.headers['etag'] = assetETag(asset.version);
         return feature;
       } catch (error) {
-        console.error('Error updating asset:', error);
-        throw new Error('Failed to update asset');
+        if (error instanceof PatchError) {
+          throw new ValidationError(error.message, error.details);
+        }
+
+        throw toApiError(error, 'Failed to patch asset');
       }
     },
     {
-      body: t.Object({
-        name: t.String({ minLength: 1, maxLength: 255 }),
-        type: t.Union([
-          t.Literal('vehicle'),
-          t.Literal('incident'),
-          t.Literal('poi'),
-          t.Literal('zone'),
-          t.Literal('route'),
-        ]),
-        status: t.Union([
-          t.Literal('active'),
-          t.Literal('inactive'),
-          t.Literal('warning'),
-          t.Literal('critical'),
-        ]),
-        geometry: t.Object({
-          type: t.String(),
-          coordinates: t.Any(),
-        }),
-        properties: t.Optional(t.Record(t.String(), t.Any())),
-      }),
+      permission: 'assets:update',
+      // Merge and JSON patches are JSON, whatever their content type
+      parse: 'json',
     }
   )
 
@@ -463,25 +1470,32 @@ export const routes = new Elysia({ prefix: '/api' })
    * DELETE /api/assets/:id
    * Soft delete an asset (sets deleted_at timestamp)
    */
-  .delete('/assets/:id', async ({ params: { id } }) => {
+  .delete('/assets/:id', async ({ params: { id }, principal, tenant }) => {
+    const type = await findAssetType(tenant, id);
+    if (type && !can(principal!, 'assets:delete', type)) {
+      throw forbidden(principal!, 'assets:delete', type);
+    }
+
     try {
       const result = await sql`
         UPDATE assets
         SET deleted_at = NOW()
-        WHERE id = ${id} AND deleted_at IS NULL
-        RETURNING id, name
+        WHERE id = ${id} AND tenant_id = ${tenant} AND deleted_at IS NULL
+        RETURNING id, name, type
       `;
 
       if (result.length === 0) {
-        throw new Error('Asset not found or already deleted');
+        throw new NotFoundError('Asset not found or already deleted');
       }
 
       emitAssetNotification({
+        tenant,
         action: 'deleted',
         assetName: result[0].name,
         severity: 'warning',
         data: { id: result[0].id },
       });
+      emitAssetChange({ id: result[0].id, tenant, type: result[0].type, operation: 'delete' });
 
       return {
         success: true,
@@ -489,18 +1503,94 @@ export const routes = new Elysia({ prefix: '/api' })
         message: 'Asset deleted successfully',
       };
     } catch (error) {
-      console.error('Error deleting asset:', error);
-      throw new Error('Failed to delete asset');
+      throw toApiError(error, 'Failed to delete asset');
     }
-  })
+  }, { permission: 'assets:delete' })
+
+  /**
+   * POST /api/assets/:id/restore
+   * Restore a soft-deleted asset from the trash
+   */
+  .post('/assets/:id/restore', async ({ params: { id }, principal, tenant }) => {
+    const type = await findAssetType(tenant, id);
+    if (type && !can(principal!, 'assets:delete', type)) {
+      throw forbidden(principal!, 'assets:delete', type);
+    }
+
+    try {
+      const result = await sql`
+        UPDATE assets
+        SET deleted_at = NULL
+        WHERE id = ${id} AND tenant_id = ${tenant} AND deleted_at IS NOT NULL
+        RETURNING
+          id,
+          name,
+          type,
+          status,
+          ST_AsGeoJSON(geometry)::jsonb as geometry,
+          properties,
+          created_at,
+          updated_at,
+          version
+      `;
+
+      if (result.length === 0) {
+        throw new NotFoundError('Asset not found or not deleted');
+      }
+
+      // Build GeoJSON Feature response
+      const asset = result[0];
+      const feature: GeoJSONFeature = {
+        type: 'Feature',
+        id: asset.id,
+        geometry: asset.geometry,
+        properties: {
+          id: asset.id,
+          name: asset.name,
+          type: asset.type,
+          status: asset.status,
+          createdAt: asset.created_at,
+          updatedAt: asset.updated_at,
+          version: asset.version,
+          ...(asset.properties || {}),
+        },
+      };
+
+      emitAssetNotification({
+        tenant,
+        action: 'restored',
+        assetName: asset.name,
+        severity: 'success',
+        data: { feature },
+      });
+      emitAssetChange({ id: asset.id, tenant, type: asset.type, operation: 'restore' });
+
+      return feature;
+    } catch (error) {
+      throw toApiError(error, 'Failed to restore asset');
+    }
+  }, { permission: 'assets:delete' })
 
   /**
    * PATCH /api/assets/:id/geometry
    * Update only the geometry of an asset
+   * Honours If-Match like PUT /api/assets/:id
    */
   .patch(
     '/assets/:id/geometry',
-    async ({ params: { id }, body }) => {
+    async ({ params: { id }, body, headers, principal, set, tenant }) => {
+      const type = await findAssetType(tenant, id);
+      if (type && !can(principal!, 'assets:update', type)) {
+        throw forbidden(principal!, 'assets:update', type);
+      }
+
+      const expectedVersion = parseIfMatch(headers['if-match']);
+      if (expectedVersion === null) {
+        throw invalidField('If-Match', 'If-Match must be an asset version ETag, e.g. "3"');
+      }
+
+      await checkGeometry(body.geometry);
+
       try {
         const { geometry } = body;
 
@@ -509,7 +1599,10 @@ export const routes = new Elysia({ prefix: '/api' })
           SET
             geometry = ST_SetSRID(ST_GeomFromGeoJSON(${JSON.stringify(geometry)}), 4326),
             updated_at = NOW()
-          WHERE id = ${id} AND deleted_at IS NULL
+          WHERE id = ${id}
+            AND tenant_id = ${tenant}
+            AND deleted_at IS NULL
+            ${expectedVersion === undefined ? sql`` : sql`AND version = ${expectedVersion}`}
           RETURNING
             id,
             name,
@@ -518,11 +1611,19 @@ export const routes = new Elysia({ prefix: '/api' })
             ST_AsGeoJSON(geometry)::jsonb as geometry,
             properties,
             created_at,
-            updated_at
+            updated_at,
+            version
         `;
 
         if (result.length === 0) {
-          throw new Error('Asset not found or already deleted');
+          const current = expectedVersion === undefined ? undefined : await findAssetFeature(tenant, id);
+
+          if (current) {
+            set.headers['etag'] = assetETag(current.properties.version!);
+            throw versionConflict(current, expectedVersion!);
+          }
+
+          throw new NotFoundError('Asset not found or already deleted');
         }
 
         // Build GeoJSON Feature response
@@ -538,24 +1639,28 @@ export const routes = new Elysia({ prefix: '/api' })
             status: asset.status,
             createdAt: asset.created_at,
             updatedAt: asset.updated_at,
+            version: asset.version,
             ...(asset.properties || {}),
           },
         };
 
         emitAssetNotification({
+          tenant,
           action: 'geometry_updated',
           assetName: asset.name,
           severity: 'info',
           data: { feature },
         });
+        emitAssetChange({ id: asset.id, tenant, type: asset.type, operation: 'geometry_update' });
 
+        set.headers['etag'] = assetETag(asset.version);
         return feature;
       } catch (error) {
-        console.error('Error updating asset geometry:', error);
-        throw new Error('Failed to update asset geometry');
+        throw toApiError(error, 'Failed to update asset geometry');
       }
     },
     {
+      permission: 'assets:update',
       body: t.Object({
         geometry: t.Object({
           type: t.String(),
@@ -566,11 +1671,199 @@ export const routes = new Elysia({ prefix: '/api' })
   )
 
   /**
-   * GET /api/health
-   * Health check endpoint
+   * GET /api/tiles/:z/:x/:y.mvt
+   * Mapbox Vector Tile of the assets, one tile layer per asset type
+   *
+   * Query params:
+   * - type, status, bbox, asOf: Same filters as GET /api/assets
+   * - tenant: Stands in for X-Tenant-ID, which map tile requests cannot send
    */
-  .get('/health', () => ({
-    status: 'ok',
-    timestamp: new Date().toISOString(),
-    service: 'geospatial-dashboard-api',
-  }));
+  .get(
+    '/tiles/:z/:x/:y',
+    async ({ params, query, tenant }) => {
+      const coordinates = parseTileCoordinates(params.z, params.x, params.y);
+      if (!coordinates) {
+        throw new ValidationError('Invalid tile coordinates');
+      }
+
+      const { type, status, bbox, asOf } = query as AssetQueryParams;
+
+      const asOfDate = asOf ? parseAsOf(asOf) : undefined;
+      if (asOfDate === null) {
+        throw invalidField('/asOf', 'asOf must be an ISO 8601 timestamp');
+      }
+
+      try {
+        const tile = await renderTile(coordinates, tenant, { type, status, bbox }, asOfDate);
+
+        return new Response(tile, {
+          headers: {
+            'content-type': 'application/vnd.mapbox-vector-tile',
+            'cache-control': 'no-cache',
+          },
+        });
+      } catch (error) {
+        throw toApiError(error, 'Failed to render tile');
+      }
+    },
+    {
+      permission: 'assets:read',
+      query: t.Object({
+        type: t.Optional(t.String()),
+        status: t.Optional(t.String()),
+        bbox: t.Optional(t.String()),
+        asOf: t.Optional(t.String()),
+        tenant: t.Optional(t.String()),
+      }),
+    }
+  )
+
+  /**
+   * GET /api/rules
+   * List the alert rules
+   */
+  .get('/rules', async ({ tenant }) => {
+    try {
+      return await listRules(tenant);
+    } catch (error) {
+      throw toApiError(error, 'Failed to fetch rules');
+    }
+  }, { permission: 'rules:read' })
+
+  /**
+   * GET /api/rules/:id
+   * Get a single alert rule
+   */
+  .get('/rules/:id', async ({ params: { id }, tenant }) => {
+    let rule;
+    try {
+      rule = await getRule(tenant, id);
+    } catch (error) {
+      throw toApiError(error, 'Failed to fetch rule');
+    }
+
+    if (!rule) {
+      throw new NotFoundError('Rule not found');
+    }
+
+    return rule;
+  }, { permission: 'rules:read' })
+
+  /**
+   * POST /api/rules
+   * Create an alert rule
+   *
+   * A rule matches assets of assetType (any type when null) that satisfy the
+   * condition filter expression and intersect zoneId when set. Matches are
+   * published as rule.match notifications with the rule id in data.
+   */
+  .post(
+    '/rules',
+    async ({ body, set, tenant }) => {
+      try {
+        const rule = await createRule(tenant, body as AlertRuleInput);
+        set.status = 201;
+        return rule;
+      } catch (error) {
+        if (error instanceof RuleValidationError) {
+          throw invalidField(`/${error.field}`, error.message);
+        }
+
+        throw toApiError(error, 'Failed to create rule');
+      }
+    },
+    { body: ruleBody, permission: 'rules:manage' }
+  )
+
+  /**
+   * PUT /api/rules/:id
+   * Replace an alert rule
+   */
+  .put(
+    '/rules/:id',
+    async ({ params: { id }, body, tenant }) => {
+      let rule;
+      try {
+        rule = await updateRule(tenant, id, body as AlertRuleInput);
+      } catch (error) {
+        if (error instanceof RuleValidationError) {
+          throw invalidField(`/${error.field}`, error.message);
+        }
+
+        throw toApiError(error, 'Failed to update rule');
+      }
+
+      if (!rule) {
+        throw new NotFoundError('Rule not found');
+      }
+
+      return rule;
+    },
+    { body: ruleBody, permission: 'rules:manage' }
+  )
+
+  /**
+   * DELETE /api/rules/:id
+   * Delete an alert rule
+   */
+  .delete('/rules/:id', async ({ params: { id }, tenant }) => {
+    let deleted;
+    try {
+      deleted = await deleteRule(tenant, id);
+    } catch (error) {
+      throw toApiError(error, 'Failed to delete rule');
+    }
+
+    if (!deleted) {
+      throw new NotFoundError('Rule not found');
+    }
+
+    return { success: true, id };
+  }, { permission: 'rules:manage' })
+
+  /**
+   * GET /api/tenants
+   * List the tenants (for admins bound to no tenant)
+   */
+  .get('/tenants', async () => {
+    try {
+      return await listTenants();
+    } catch (error) {
+      throw toApiError(error, 'Failed to fetch tenants');
+    }
+  }, { permission: 'tenants:manage' })
+
+  /**
+   * POST /api/tenants
+   * Create a tenant
+   *
+   * Body:
+   * - id: Slug the clients of the tenant send as X-Tenant-ID (lowercase
+   *   letters, digits and dashes)
+   * - name: Display name
+   */
+  .post(
+    '/tenants',
+    async ({ body, set }) => {
+      let tenant;
+      try {
+        tenant = await createTenant(body);
+      } catch (error) {
+        throw toApiError(error, 'Failed to create tenant');
+      }
+
+      if (!tenant) {
+        throw new ConflictError(`Tenant "${body.id}" already exists`);
+      }
+
+      set.status = 201;
+      return tenant;
+    },
+    {
+      body: t.Object({
+        id: t.String({ pattern: TENANT_ID_PATTERN, maxLength: 63 }),
+        name: t.String({ minLength: 1, maxLength: 255 }),
+      }),
+      permission: 'tenants:manage',
+    }
+  );
@@ -0,0 +1,321 @@
+import { sql } from './db';
+import { assetEvents, type AssetChange } from './events';
+import { filterCondition, parseFilter } from './expression';
+import { notificationCenter } from './notifications';
+import type { AlertRule, AlertRuleInput, AssetStatus, AssetType } from './types';
+
+/**
+ * Alert rules engine
+ *
+ * Rules are stored in alert_rules and managed through /api/rules, each in its
+ * tenant. Whenever an asset changes, every enabled rule of its tenant for its
+ * type is evaluated against it: the
+ * asset matches when it satisfies the rule's filter expression and, if the
+ * rule names a zone, intersects that zone. Matches are published through the
+ * notification center as rule.match notifications carrying the rule id.
+ *
+ * "transition" rules only fire when an asset starts matching (the matching
+ * assets are kept in alert_rule_matches), "always" rules fire on every change
+ * while the asset matches. Only the changed asset is evaluated, so moving a
+ * zone doesn't fire rules for the assets it now covers. Rules whose zone is in
+ * the trash are not evaluated, and keep their matches, until it is restored.
+ */
+
+/**
+ * Raised when a rule references an invalid condition or zone
+ * field names the rule field at fault.
+ */
+export class RuleValidationError extends Error {
+  constructor(
+    message: string,
+    readonly field: 'condition' | 'zoneId'
+  ) {
+    super(message);
+    this.name = 'RuleValidationError';
+  }
+}
+
+interface RuleRow {
+  id: string;
+  name: string;
+  description: string | null;
+  asset_type: AssetType | null;
+  condition: string | null;
+  zone_id: string | null;
+  severity: AlertRule['severity'];
+  trigger: AlertRule['trigger'];
+  message: string | null;
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface MatchedAsset {
+  id: string;
+  tenant_id: string;
+  name: string;
+  type: AssetType;
+  status: AssetStatus;
+}
+
+const RULE_COLUMNS = sql`
+  id, name, description, asset_type, condition, zone_id,
+  severity, trigger, message, enabled, created_at, updated_at
+`;
+
+const toRule = (row: RuleRow): AlertRule => ({
+  id: row.id,
+  name: row.name,
+  description: row.description,
+  assetType: row.asset_type,
+  condition: row.condition,
+  zoneId: row.zone_id,
+  severity: row.severity,
+  trigger: row.trigger,
+  message: row.message,
+  enabled: row.enabled,
+  createdAt: new Date(row.created_at).toISOString(),
+  updatedAt: new Date(row.updated_at).toISOString(),
+});
+
+/**
+ * Check the condition syntax and that the zone is an existing zone asset of the tenant
+ */
+async function validateRule(tenant: string, input: AlertRuleInput) {
+  if (input.condition) {
+    try {
+      parseFilter(input.condition);
+    } catch (error) {
+      throw new RuleValidationError(`Invalid condition: ${(error as Error).message}`, 'condition');
+    }
+  }
+
+  if (input.zoneId) {
+    const [zone] = await sql`
+      SELECT id FROM assets
+      WHERE id = ${input.zoneId} AND tenant_id = ${tenant} AND type = 'zone' AND deleted_at IS NULL
+    `;
+
+    if (!zone) {
+      throw new RuleValidationError(`Zone ${input.zoneId} not found`, 'zoneId');
+    }
+  }
+}
+
+export async function listRules(tenant: string): Promise<AlertRule[]> {
+  const rows = await sql<RuleRow[]>`
+    SELECT ${RULE_COLUMNS}
+    FROM alert_rules
+    WHERE tenant_id = ${tenant}
+    ORDER BY created_at, id
+  `;
+
+  return rows.map(toRule);
+}
+
+export async function getRule(tenant: string, id: string): Promise<AlertRule | null> {
+  const [row] = await sql<RuleRow[]>`
+    SELECT ${RULE_COLUMNS}
+    FROM alert_rules
+    WHERE id = ${id} AND tenant_id = ${tenant}
+  `;
+
+  return row ? toRule(row) : null;
+}
+
+export async function createRule(tenant: string, input: AlertRuleInput): Promise<AlertRule> {
+  await validateRule(tenant, input);
+
+  const [row] = await sql<RuleRow[]>`
+    INSERT INTO alert_rules (
+      tenant_id, name, description, asset_type, condition, zone_id,
+      severity, trigger, message, enabled
+    ) VALUES (
+      ${tenant},
+      ${input.name},
+      ${input.description ?? null},
+      ${input.assetType ?? null},
+      ${input.condition || null},
+      ${input.zoneId || null},
+      ${input.severity ?? 'warning'},
+      ${input.trigger ?? 'transition'},
+      ${input.message ?? null},
+      ${input.enabled ?? true}
+    )
+    RETURNING ${RULE_COLUMNS}
+  `;
+
+  return toRule(row);
+}
+
+/**
+ * Replace a rule
+ * Its current matches are dropped, so a transition rule fires again for
+ * assets that match the new definition.
+ */
+export async function updateRule(tenant: string, id: string, input: AlertRuleInput): Promise<AlertRule | null> {
+  await validateRule(tenant, input);
+
+  return sql.begin(async (tx) => {
+    const [row] = await tx<RuleRow[]>`
+      UPDATE alert_rules
+      SET
+        name = ${input.name},
+        description = ${input.description ?? null},
+        asset_type = ${input.assetType ?? null},
+        condition = ${input.condition || null},
+        zone_id = ${input.zoneId || null},
+        severity = ${input.severity ?? 'warning'},
+        trigger = ${input.trigger ?? 'transition'},
+        message = ${input.message ?? null},
+        enabled = ${input.enabled ?? true}
+      WHERE id = ${id} AND tenant_id = ${tenant}
+      RETURNING ${RULE_COLUMNS}
+    `;
+
+    if (!row) return null;
+
+    await tx`DELETE FROM alert_rule_matches WHERE rule_id = ${id}`;
+
+    return toRule(row);
+  });
+}
+
+export async function deleteRule(tenant: string, id: string): Promise<boolean> {
+  const result = await sql`
+    DELETE FROM alert_rules
+    WHERE id = ${id} AND tenant_id = ${tenant}
+    RETURNING id
+  `;
+
+  return result.length > 0;
+}
+
+/**
+ * Evaluate the enabled rules against one asset and return the rules that fire
+ *
+ * A deleted asset matches nothing, so its transition rules fire again once it
+ * is restored and still matches.
+ */
+export async function evaluateRules(assetId: string) {
+  return sql.begin(async (tx) => {
+    // Evaluations of the same asset run one after the other
+    await tx`SELECT pg_advisory_xact_lock(hashtext(${`rules:${assetId}`}))`;
+
+    const [asset] = await tx<MatchedAsset[]>`
+      SELECT id, tenant_id, name, type, status
+      FROM assets
+      WHERE id = ${assetId} AND deleted_at IS NULL
+    `;
+
+    if (!asset) {
+      await tx`DELETE FROM alert_rule_matches WHERE asset_id = ${assetId}`;
+      return { asset: null, fired: [] as AlertRule[] };
+    }
+
+    const rules = (
+      await tx<RuleRow[]>`
+        SELECT ${RULE_COLUMNS}
+        FROM alert_rules
+        WHERE enabled
+          AND tenant_id = ${asset.tenant_id}
+          AND (asset_type IS NULL OR asset_type = ${asset.type})
+          AND (zone_id IS NULL OR EXISTS (
+            SELECT 1 FROM assets z WHERE z.id = alert_rules.zone_id AND z.deleted_at IS NULL
+          ))
+        ORDER BY created_at, id
+      `
+    ).map(toRule);
+
+    const fired: AlertRule[] = [];
+
+    for (const rule of rules) {
+      const condition = rule.condition ? filterCondition(rule.condition) : sql`TRUE`;
+      const inZone = rule.zoneId
+        ? sql`EXISTS (
+            SELECT 1 FROM assets z
+            WHERE z.id = ${rule.zoneId}
+              AND z.deleted_at IS NULL
+              AND ST_Intersects(z.geometry, a.geometry)
+          )`
+        : sql`TRUE`;
+
+      const [{ matches }] = await tx<{ matches: boolean }[]>`
+        SELECT EXISTS (
+          SELECT 1 FROM assets a
+          WHERE a.id = ${assetId} AND ${condition} AND ${inZone}
+        ) as matches
+      `;
+
+      if (!matches) {
+        await tx`DELETE FROM alert_rule_matches WHERE rule_id = ${rule.id} AND asset_id = ${assetId}`;
+        continue;
+      }
+
+      const inserted = await tx`
+        INSERT INTO alert_rule_matches (rule_id, asset_id)
+        VALUES (${rule.id}, ${assetId})
+        ON CONFLICT DO NOTHING
+        RETURNING rule_id
+      `;
+
+      if (inserted.length > 0 || rule.trigger === 'always') {
+        fired.push(rule);
+      }
+    }
+
+    return { asset, fired };
+  });
+}
+
+/**
+ * Publish a rule match through the notification center
+ */
+function publishMatch(rule: AlertRule, asset: MatchedAsset) {
+  notificationCenter.publish(
+    {
+      tenant: asset.tenant_id,
+      type: 'rule.match',
+      title: rule.name,
+      message: rule.message || `${asset.name} matched rule "${rule.name}".`,
+      severity: rule.severity,
+      data: {
+        ruleId: rule.id,
+        ruleName: rule.name,
+        assetId: asset.id,
+        assetName: asset.name,
+        assetType: asset.type,
+        assetStatus: asset.status,
+      },
+    },
+    'system'
+  );
+}
+
+const handleAssetChange = (change: AssetChange) => {
+  evaluateRules(change.id)
+    .then(({ asset, fired }) => {
+      if (asset) fired.forEach((rule) => publishMatch(rule, asset));
+    })
+    .catch((error) => {
+      console.error('❌ Error evaluating rules:', error);
+    });
+};
+
+let rulesEngineStarted = false;
+
+export function startRulesEngine() {
+  if (rulesEngineStarted) return;
+
+  assetEvents.on('change', handleAssetChange);
+  rulesEngineStarted = true;
+  console.log('📏 Rules engine started');
+}
+
+export function stopRulesEngine() {
+  if (!rulesEngineStarted) return;
+
+  assetEvents.off('change', handleAssetChange);
+  rulesEngineStarted = false;
+  console.log('📏 Rules engine stopped');
+}
@@ -0,0 +1,83 @@
+import { t } from 'elysia';
+
+/**
+ * Body of POST /api/assets (and of PUT /api/assets/:id, with a version)
+ * Also validates the assets carried by Kafka asset commands
+ */
+export const assetBody = t.Object({
+  name: t.String({ minLength: 1, maxLength: 255 }),
+  type: t.Union([
+    t.Literal('vehicle'),
+    t.Literal('incident'),
+    t.Literal('poi'),
+    t.Literal('zone'),
+    t.Literal('route'),
+  ]),
+  status: t.Union([
+    t.Literal('active'),
+    t.Literal('inactive'),
+    t.Literal('warning'),
+    t.Literal('critical'),
+  ]),
+  geometry: t.Object({
+    type: t.String(),
+    coordinates: t.Any(),
+  }),
+  properties: t.Optional(t.Record(t.String(), t.Any())),
+});
+
+/**
+ * Body of PUT /api/assets/:id
+ * version is the expected current version, an alternative to If-Match
+ */
+export const assetUpdateBody = t.Composite([
+  assetBody,
+  t.Object({
+    version: t.Optional(t.Integer({ minimum: 1 })),
+  }),
+]);
+
+/**
+ * Part of an asset PATCH /api/assets/:id may change, as it must be once patched
+ */
+export const patchableAsset = t.Object(
+  {
+    name: assetBody.properties.name,
+    status: assetBody.properties.status,
+    properties: t.Record(t.String(), t.Any()),
+  },
+  { additionalProperties: false }
+);
+
+/**
+ * Message on KAFKA_TOPIC_ASSETS
+ * - create: insert asset
+ * - upsert: update the live asset whose properties.external_id is externalId
+ *   (defaults to asset.properties.external_id), or insert it
+ * - delete: soft delete the asset with this id or externalId
+ * Commands apply to the assets of their tenant (default tenant when absent).
+ */
+export const assetCommand = t.Object({
+  action: t.Union([t.Literal('create'), t.Literal('upsert'), t.Literal('delete')]),
+  requestId: t.Optional(t.String()),
+  tenant: t.Optional(t.String({ minLength: 1 })),
+  id: t.Optional(t.String({ format: 'uuid' })),
+  externalId: t.Optional(t.String({ minLength: 1 })),
+  asset: t.Optional(assetBody),
+});
+
+/**
+ * Data of the WebSocket "subscribe" message
+ */
+export const assetSubscription = t.Object({
+  bbox: t.Optional(
+    t.Tuple([
+      t.Number({ minimum: -180, maximum: 180 }),
+      t.Number({ minimum: -90, maximum: 90 }),
+      t.Number({ minimum: -180, maximum: 180 }),
+      t.Number({ minimum: -90, maximum: 90 }),
+    ])
+  ),
+  types: t.Optional(t.Array(assetBody.properties.type)),
+  statuses: t.Optional(t.Array(assetBody.properties.status)),
+});
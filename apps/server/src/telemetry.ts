@@ -0,0 +1,284 @@
+import { sql } from './db';
+import type { GeoJSONFeature, RejectedFix, TelemetryFix, TelemetryReport } from './types';
+
+/**
+ * Fixes dated further in the future than this are rejected, otherwise a
+ * gateway with a wrong clock would make every later fix look out of order
+ */
+const MAX_CLOCK_SKEW = 5 * 60 * 1000; // 5 minutes
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Fix that passed validation
+ */
+interface ValidFix {
+  index: number;
+  assetId?: string;
+  externalId?: string;
+  lon: number;
+  lat: number;
+  time: number;
+  speed: number | null;
+  heading: number | null;
+}
+
+/**
+ * Fix resolved to a vehicle
+ */
+interface ResolvedFix extends ValidFix {
+  vehicleId: string;
+}
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const optionalNumber = (value: unknown) => (isFiniteNumber(value) ? value : null);
+
+/**
+ * Validate a fix, or describe why it was rejected
+ */
+function validateFix(fix: any, index: number, now: number): ValidFix | RejectedFix {
+  if (!fix || typeof fix !== 'object') {
+    return { index, reason: 'Not a telemetry record' };
+  }
+
+  const { assetId, externalId } = fix as TelemetryFix;
+
+  if (assetId !== undefined && (typeof assetId !== 'string' || !UUID_PATTERN.test(assetId))) {
+    return { index, field: 'assetId', reason: 'assetId must be a UUID' };
+  }
+
+  if (externalId !== undefined && (typeof externalId !== 'string' || externalId.length === 0)) {
+    return { index, field: 'externalId', reason: 'externalId must be a non-empty string' };
+  }
+
+  if (!assetId && !externalId) {
+    return { index, reason: 'Either assetId or externalId is required' };
+  }
+
+  if (!isFiniteNumber(fix.lon) || fix.lon < -180 || fix.lon > 180) {
+    return { index, field: 'lon', reason: 'lon must be a number between -180 and 180' };
+  }
+
+  if (!isFiniteNumber(fix.lat) || fix.lat < -90 || fix.lat > 90) {
+    return { index, field: 'lat', reason: 'lat must be a number between -90 and 90' };
+  }
+
+  const time = typeof fix.timestamp === 'string' ? Date.parse(fix.timestamp) : NaN;
+  if (Number.isNaN(time)) {
+    return { index, field: 'timestamp', reason: 'timestamp must be an ISO 8601 timestamp' };
+  }
+
+  if (time > now + MAX_CLOCK_SKEW) {
+    return { index, field: 'timestamp', reason: 'timestamp is in the future' };
+  }
+
+  return {
+    index,
+    assetId,
+    externalId,
+    lon: fix.lon,
+    lat: fix.lat,
+    time,
+    speed: optionalNumber(fix.speed),
+    heading: optionalNumber(fix.heading),
+  };
+}
+
+/**
+ * Map each fix onto the tenant's vehicle it belongs to
+ */
+async function resolveVehicles(tenant: string, fixes: ValidFix[], rejected: RejectedFix[]): Promise<ResolvedFix[]> {
+  const assetIds = Array.from(new Set(fixes.flatMap((fix) => (fix.assetId ? [fix.assetId.toLowerCase()] : []))));
+  const externalIds = Array.from(new Set(fixes.flatMap((fix) => (fix.externalId ? [fix.externalId] : []))));
+
+  const rows = await sql<{ id: string; type: string; external_id: string | null }[]>`
+    SELECT id, type, properties->>'external_id' as external_id
+    FROM assets
+    WHERE deleted_at IS NULL
+      AND tenant_id = ${tenant}
+      AND (id = ANY(${assetIds}::uuid[]) OR properties->>'external_id' = ANY(${externalIds}::text[]))
+  `;
+
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  const byExternalId = new Map(rows.flatMap((row) => (row.external_id ? [[row.external_id, row] as const] : [])));
+  const resolved: ResolvedFix[] = [];
+
+  for (const fix of fixes) {
+    const asset = fix.assetId ? byId.get(fix.assetId.toLowerCase()) : byExternalId.get(fix.externalId!);
+
+    if (!asset) {
+      rejected.push({
+        index: fix.index,
+        field: fix.assetId ? 'assetId' : 'externalId',
+        reason: 'Asset not found',
+      });
+    } else if (asset.type !== 'vehicle') {
+      rejected.push({ index: fix.index, reason: 'Asset is not a vehicle' });
+    } else {
+      resolved.push({ ...fix, vehicleId: asset.id });
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Ingest a batch of position fixes for the vehicles of a tenant
+ *
+ * Fixes newer than a vehicle's latest recorded position are appended to
+ * asset_positions in bulk, and each vehicle is moved to its newest fix (its
+ * speed and heading properties follow). Fixes that are not newer are ignored,
+ * so late or replayed fixes never move a vehicle back in time.
+ *
+ * Returns the report and the updated vehicles as GeoJSON features.
+ */
+export async function ingestTelemetry(
+  tenant: string,
+  fixes: any[]
+): Promise<{ report: TelemetryReport; updated: GeoJSONFeature[] }> {
+  const now = Date.now();
+  const rejected: RejectedFix[] = [];
+  const valid: ValidFix[] = [];
+
+  fixes.forEach((fix, index) => {
+    const result = validateFix(fix, index, now);
+    if ('reason' in result) {
+      rejected.push(result);
+    } else {
+      valid.push(result);
+    }
+  });
+
+  const resolved = valid.length > 0 ? await resolveVehicles(tenant, valid, rejected) : [];
+  let accepted = 0;
+  let updated: GeoJSONFeature[] = [];
+  let vanished = 0;
+
+  if (resolved.length > 0) {
+    const vehicleIds = Array.from(new Set(resolved.map((fix) => fix.vehicleId))).sort();
+
+    [accepted, updated] = await sql.begin(async (tx) => {
+      // Positions are written here, not by the record_assets_position trigger
+      await tx`SELECT set_config('app.telemetry', 'on', true)`;
+
+      // Lock the vehicles in a fixed order so concurrent batches neither
+      // deadlock nor interleave their fixes
+      const locked = await tx<{ id: string }[]>`
+        SELECT id FROM assets
+        WHERE id = ANY(${vehicleIds}::uuid[]) AND deleted_at IS NULL
+        ORDER BY id
+        FOR UPDATE
+      `;
+
+      // Vehicles deleted since they were resolved are rejected like unknown ones
+      const live = new Set(locked.map((row) => row.id));
+      const current = resolved.filter((fix) => {
+        if (live.has(fix.vehicleId)) return true;
+
+        rejected.push({ index: fix.index, field: fix.assetId ? 'assetId' : 'externalId', reason: 'Asset not found' });
+        vanished++;
+        return false;
+      });
+
+      const latest = await tx<{ asset_id: string; recorded_at: Date }[]>`
+        SELECT asset_id, MAX(recorded_at) as recorded_at
+        FROM asset_positions
+        WHERE asset_id = ANY(${vehicleIds}::uuid[])
+        GROUP BY asset_id
+      `;
+
+      const lastTime = new Map(latest.map((row) => [row.asset_id, new Date(row.recorded_at).getTime()]));
+      const fresh: ResolvedFix[] = [];
+
+      // Oldest first, keeping only fixes newer than everything seen so far
+      current
+        .sort((a, b) => a.time - b.time || a.index - b.index)
+        .forEach((fix) => {
+          const last = lastTime.get(fix.vehicleId);
+          if (last !== undefined && fix.time <= last) return;
+          lastTime.set(fix.vehicleId, fix.time);
+          fresh.push(fix);
+        });
+
+      if (fresh.length === 0) return [0, []] as [number, GeoJSONFeature[]];
+
+      await tx`
+        INSERT INTO asset_positions (asset_id, recorded_at, position, speed, heading)
+        SELECT f.asset_id, f.recorded_at, ST_SetSRID(ST_MakePoint(f.lon, f.lat), 4326), f.speed, f.heading
+        FROM unnest(
+          ${fresh.map((fix) => fix.vehicleId)}::uuid[],
+          ${fresh.map((fix) => new Date(fix.time).toISOString())}::timestamptz[],
+          ${fresh.map((fix) => fix.lon)}::float8[],
+          ${fresh.map((fix) => fix.lat)}::float8[],
+          ${fresh.map((fix) => fix.speed)}::float8[],
+          ${fresh.map((fix) => fix.heading)}::float8[]
+        ) AS f(asset_id, recorded_at, lon, lat, speed, heading)
+      `;
+
+      // fresh is sorted by time, so the last fix of each vehicle is its newest
+      const newest = Array.from(new Map(fresh.map((fix) => [fix.vehicleId, fix])).values());
+
+      const rows = await tx`
+        UPDATE assets a
+        SET
+          geometry = ST_SetSRID(ST_MakePoint(f.lon, f.lat), 4326),
+          properties = COALESCE(a.properties, '{}'::jsonb)
+            || jsonb_strip_nulls(jsonb_build_object('speed', f.speed, 'heading', f.heading)),
+          updated_at = NOW()
+        FROM unnest(
+          ${newest.map((fix) => fix.vehicleId)}::uuid[],
+          ${newest.map((fix) => fix.lon)}::float8[],
+          ${newest.map((fix) => fix.lat)}::float8[],
+          ${newest.map((fix) => fix.speed)}::float8[],
+          ${newest.map((fix) => fix.heading)}::float8[]
+        ) AS f(id, lon, lat, speed, heading)
+        WHERE a.id = f.id AND a.deleted_at IS NULL
+        RETURNING
+          a.id,
+          a.name,
+          a.type,
+          a.status,
+          ST_AsGeoJSON(a.geometry)::jsonb as geometry,
+          a.properties,
+          a.created_at,
+          a.updated_at,
+          a.version
+      `;
+
+      const features = rows.map(
+        (asset): GeoJSONFeature => ({
+          type: 'Feature',
+          id: asset.id,
+          geometry: asset.geometry,
+          properties: {
+            id: asset.id,
+            name: asset.name,
+            type: asset.type,
+            status: asset.status,
+            createdAt: asset.created_at,
+            updatedAt: asset.updated_at,
+            version: asset.version,
+            ...(asset.properties || {}),
+          },
+        })
+      );
+
+      return [fresh.length, features] as [number, GeoJSONFeature[]];
+    });
+  }
+
+  rejected.sort((a, b) => a.index - b.index);
+
+  return {
+    report: {
+      total: fixes.length,
+      accepted,
+      ignored: resolved.length - vanished - accepted,
+      updated: updated.length,
+      rejected,
+    },
+    updated,
+  };
+}
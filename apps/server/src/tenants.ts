@@ -0,0 +1,148 @@
+import { Elysia } from 'elysia';
+import { authentication } from './auth';
+import { sql } from './db';
+import { ForbiddenError, NotFoundError, toApiError } from './errors';
+import { can } from './permissions';
+import type { Principal, Tenant } from './types';
+
+/**
+ * Tenants
+ *
+ * Every organisation sharing the dashboard works in its own tenant: assets,
+ * alert rules, push subscriptions, notifications and WebSocket messages
+ * belong to one tenant and stay inside it. A principal bound to a tenant (the
+ * tenant claim of its token, api_keys.tenant_id) always works in it. Admins
+ * bound to no tenant (tenants:manage) pick one with the X-Tenant-ID header, or
+ * the tenant query parameter where headers cannot be set, and work in
+ * DEFAULT_TENANT without either. Everyone else works in DEFAULT_TENANT.
+ */
+
+export const DEFAULT_TENANT = 'default';
+
+export const TENANT_HEADER = 'x-tenant-id';
+
+// Same rule as the tenants.id CHECK constraint
+export const TENANT_ID_PATTERN = '^[a-z0-9][a-z0-9-]*$';
+
+/**
+ * Raised when a request names a tenant it cannot work in
+ */
+export class TenantError extends Error {
+  constructor(
+    message: string,
+    readonly status: 403 | 404
+  ) {
+    super(message);
+    this.name = 'TenantError';
+  }
+}
+
+// Tenants are never deleted, so a known id needs no further lookup
+const knownTenants = new Set<string>([DEFAULT_TENANT]);
+
+const toTenant = (row: Record<string, any>): Tenant => ({
+  id: row.id,
+  name: row.name,
+  createdAt: new Date(row.created_at).toISOString(),
+});
+
+export async function listTenants(): Promise<Tenant[]> {
+  const rows = await sql`
+    SELECT id, name, created_at
+    FROM tenants
+    ORDER BY id
+  `;
+
+  return rows.map(toTenant);
+}
+
+/**
+ * Create a tenant; returns null when the id is taken
+ */
+export async function createTenant({ id, name }: { id: string; name: string }): Promise<Tenant | null> {
+  const [row] = await sql`
+    INSERT INTO tenants (id, name)
+    VALUES (${id}, ${name})
+    ON CONFLICT (id) DO NOTHING
+    RETURNING id, name, created_at
+  `;
+
+  if (!row) return null;
+
+  knownTenants.add(row.id);
+  return toTenant(row);
+}
+
+export async function tenantExists(id: string): Promise<boolean> {
+  if (knownTenants.has(id)) return true;
+
+  const [row] = await sql`SELECT id FROM tenants WHERE id = ${id}`;
+  if (row) knownTenants.add(id);
+
+  return Boolean(row);
+}
+
+/**
+ * Tenant a principal works in when it asks for the requested one
+ * Throws TenantError for another tenant than the principal's, for a principal
+ * bound to an unknown tenant, for any tenant but DEFAULT_TENANT unless the
+ * principal manages tenants, and for unknown ones.
+ */
+export async function resolveTenant(principal: Principal, requested?: string): Promise<string> {
+  if (principal.tenant) {
+    if (requested && requested !== principal.tenant) {
+      throw new TenantError(`Not allowed to work in tenant "${requested}"`, 403);
+    }
+
+    // A token may name a tenant that was never created
+    if (!(await tenantExists(principal.tenant))) {
+      throw new TenantError(`Bound to unknown tenant "${principal.tenant}"`, 403);
+    }
+
+    return principal.tenant;
+  }
+
+  if (!can(principal, 'tenants:manage')) {
+    if (requested && requested !== DEFAULT_TENANT) {
+      throw new TenantError(`Not allowed to work in tenant "${requested}"`, 403);
+    }
+
+    return DEFAULT_TENANT;
+  }
+
+  const tenant = requested || DEFAULT_TENANT;
+  if (!(await tenantExists(tenant))) {
+    throw new TenantError(`Tenant "${tenant}" not found`, 404);
+  }
+
+  return tenant;
+}
+
+/**
+ * Elysia plugin resolving the `tenant` of every authenticated request
+ * Requests naming a tenant they cannot work in answer 403, unknown tenants 404.
+ */
+export const tenancy = new Elysia({ name: 'tenancy' })
+  .use(authentication)
+  .derive({ as: 'scoped' }, async ({ principal, headers, query }) => {
+    if (!principal) return { tenant: DEFAULT_TENANT, tenantError: null };
+
+    const requested = headers[TENANT_HEADER]?.trim() || (typeof query.tenant === 'string' ? query.tenant : undefined);
+
+    try {
+      return { tenant: await resolveTenant(principal, requested), tenantError: null };
+    } catch (error) {
+      if (error instanceof TenantError) {
+        return { tenant: DEFAULT_TENANT, tenantError: error };
+      }
+
+      throw toApiError(error, 'Failed to resolve tenant');
+    }
+  })
+  .onBeforeHandle({ as: 'scoped' }, ({ tenantError }) => {
+    if (!tenantError) return;
+
+    const { message, status } = tenantError;
+    throw status === 403 ? new ForbiddenError(message) : new NotFoundError(message);
+  })
+  .as('scoped');
@@ -0,0 +1,78 @@
+import { sql } from './db';
+import { assetConditions, assetSource, whereClause } from './filters';
+import type { AssetQueryParams, AssetType } from './types';
+
+/**
+ * One tile layer per asset type, in drawing order
+ */
+const TILE_LAYERS: AssetType[] = ['zone', 'route', 'poi', 'incident', 'vehicle'];
+
+const MAX_ZOOM = 22;
+const EXTENT = 4096;
+const BUFFER = 64;
+
+/**
+ * Parse and validate tile coordinates
+ * Accepts the y segment with or without its ".mvt" suffix
+ */
+export function parseTileCoordinates(z: string, x: string, y: string) {
+  const match = /^(\d+)(\.mvt)?$/.exec(y);
+  const zoom = Number(z);
+  const col = Number(x);
+  const row = match ? Number(match[1]) : NaN;
+
+  if (!Number.isInteger(zoom) || zoom < 0 || zoom > MAX_ZOOM) return null;
+
+  const size = 2 ** zoom;
+  if (!Number.isInteger(col) || col < 0 || col >= size) return null;
+  if (!Number.isInteger(row) || row < 0 || row >= size) return null;
+
+  return { z: zoom, x: col, y: row };
+}
+
+/**
+ * Render a Mapbox Vector Tile with ST_AsMVT
+ *
+ * Only the tenant's assets are drawn. Geometries are clipped to the Web
+ * Mercator tile envelope and every asset type goes into its own layer. The
+ * custom properties JSONB is expanded into feature attributes by ST_AsMVT.
+ */
+export async function renderTile(
+  { z, x, y }: { z: number; x: number; y: number },
+  tenant: string,
+  params: AssetQueryParams,
+  asOf?: Date
+): Promise<ArrayBuffer> {
+  const conditions = assetConditions(tenant, params, asOf);
+
+  const layers = TILE_LAYERS.map(
+    (type) => sql`
+      COALESCE((
+        SELECT ST_AsMVT(layer, ${type}, ${EXTENT}, 'geom')
+        FROM (SELECT * FROM mvtgeom WHERE type = ${type} AND geom IS NOT NULL) layer
+      ), ''::bytea)
+    `
+  ).reduce((acc, layer) => sql`${acc} || ${layer}`);
+
+  const [{ tile }] = await sql`
+    WITH bounds AS (
+      SELECT ST_TileEnvelope(${z}, ${x}, ${y}) as geom
+    ),
+    mvtgeom AS (
+      SELECT
+        ST_AsMVTGeom(ST_Transform(assets.geometry, 3857), bounds.geom, ${EXTENT}, ${BUFFER}, true) as geom,
+        assets.id::text as id,
+        assets.name,
+        assets.type::text as type,
+        assets.status::text as status,
+        assets.updated_at::text as updated_at,
+        COALESCE(assets.properties, '{}'::jsonb) as properties
+      FROM ${assetSource(asOf)}, bounds
+      WHERE ${whereClause(conditions)}
+        AND assets.geometry && ST_Transform(bounds.geom, 4326)
+    )
+    SELECT ${layers} as tile
+  `;
+
+  return Uint8Array.from(tile as Uint8Array).buffer;
+}
@@ -21,6 +21,7 @@ export interface Asset {
   createdAt: Date;
   updatedAt: Date;
   deletedAt: Date | null;
+  version: number;
 }
 
 /**
@@ -40,6 +41,7 @@ export interface GeoJSONFeature {
     status: AssetStatus;
     createdAt: string;
     updatedAt: string;
+    version?: number; // Asset version, sent as the ETag
     [key: string]: any; // Additional custom properties
   };
 }
@@ -52,6 +54,212 @@ export interface GeoJSONFeatureCollection {
   features: GeoJSONFeature[];
 }
 
+/**
+ * Spatial relationship tested by POST /api/assets/search
+ */
+export type SpatialPredicate = 'intersects' | 'within' | 'contains' | 'dwithin';
+
+/**
+ * Page of assets returned by GET /api/assets
+ * totalCount and nextCursor are GeoJSON foreign members
+ */
+export interface AssetFeaturePage extends GeoJSONFeatureCollection {
+  totalCount: number;
+  nextCursor: string | null;
+}
+
+/**
+ * Operation recorded in the asset history
+ */
+export type AssetOperation = 'create' | 'update' | 'geometry_update' | 'delete' | 'restore';
+
+/**
+ * Snapshot of an asset's values at one version
+ */
+export interface AssetSnapshot {
+  name: string;
+  type: AssetType;
+  status: AssetStatus;
+  geometry: GeoJSONFeature['geometry'];
+  properties: Record<string, any>;
+}
+
+/**
+ * One entry in an asset's change history
+ */
+export interface AssetVersion {
+  version: number;
+  operation: AssetOperation;
+  changedAt: string;
+  oldValues: AssetSnapshot | null;
+  newValues: AssetSnapshot | null;
+}
+
+/**
+ * Asset change published to KAFKA_TOPIC_ASSET_EVENTS, keyed by asset id
+ * before is null for a create, after is null for a delete
+ */
+export interface AssetChangeEvent {
+  operation: AssetOperation;
+  assetId: string;
+  tenant: string;
+  version: number;
+  before: AssetSnapshot | null;
+  after: AssetSnapshot | null;
+  timestamp: string;
+}
+
+/**
+ * Paginated asset history response
+ */
+export interface AssetHistoryPage {
+  assetId: string;
+  versions: AssetVersion[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Recorded positions of a vehicle returned by GET /api/assets/:id/track
+ * timestamps, speeds and headings are parallel to the coordinates
+ */
+export interface AssetTrack {
+  type: 'Feature';
+  id: string;
+  geometry: {
+    type: 'LineString' | 'MultiPoint';
+    coordinates: number[][];
+  };
+  properties: {
+    assetId: string;
+    name: string;
+    from: string;
+    to: string;
+    count: number;
+    timestamps: string[];
+    speeds: (number | null)[];
+    headings: (number | null)[];
+  };
+}
+
+/**
+ * Soft-deleted asset as listed in the trash
+ */
+export interface DeletedAsset {
+  id: string;
+  name: string;
+  type: AssetType;
+  status: AssetStatus;
+  geometry: GeoJSONFeature['geometry'];
+  properties: Record<string, any>;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt: string;
+}
+
+/**
+ * Paginated trash response
+ */
+export interface DeletedAssetsPage {
+  assets: DeletedAsset[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Bulk import modes
+ * - atomic: all features are committed or none are
+ * - best_effort: valid features are committed, invalid ones are rejected
+ */
+export type ImportMode = 'atomic' | 'best_effort';
+
+/**
+ * Options for a bulk GeoJSON import
+ */
+export interface ImportOptions {
+  mode?: ImportMode;
+  // Asset types the importer may create; features of other types are rejected
+  allowedTypes?: AssetType[];
+  // Feature property keys to read name/type/status from
+  mapping?: {
+    name?: string;
+    type?: string;
+    status?: string;
+  };
+  // Values used when a feature doesn't carry a type/status
+  defaults?: {
+    type?: AssetType;
+    status?: AssetStatus;
+  };
+}
+
+export interface ImportedFeature {
+  index: number;
+  featureId?: string | number;
+  id: string;
+  name: string;
+  type: AssetType;
+}
+
+export interface RejectedFeature {
+  index: number;
+  featureId?: string | number;
+  field?: string;
+  reason: string;
+}
+
+/**
+ * Per-feature report returned by the import endpoint
+ */
+export interface ImportReport {
+  mode: ImportMode;
+  committed: boolean;
+  total: number;
+  created: ImportedFeature[];
+  rejected: RejectedFeature[];
+}
+
+/**
+ * Position fix sent to POST /api/telemetry
+ * The vehicle is identified by its asset id or by properties.external_id
+ */
+export interface TelemetryFix {
+  assetId?: string;
+  externalId?: string;
+  lon: number;
+  lat: number;
+  timestamp: string;
+  speed?: number | null;
+  heading?: number | null;
+}
+
+export interface RejectedFix {
+  index: number;
+  field?: string;
+  reason: string;
+}
+
+/**
+ * Per-batch report returned by the telemetry endpoint
+ * - accepted: fixes recorded in the vehicle tracks
+ * - ignored: fixes not newer than the vehicle's latest recorded position
+ * - updated: vehicles moved to their newest fix
+ */
+export interface TelemetryReport {
+  total: number;
+  accepted: number;
+  ignored: number;
+  updated: number;
+  rejected: RejectedFix[];
+}
+
+/**
+ * Formats supported by the export endpoint
+ */
+export type ExportFormat = 'kml' | 'gpx' | 'csv' | 'shp';
+
 /**
  * WebSocket message types
  */
@@ -59,7 +267,15 @@ export type WSMessageType =
   | 'asset_update'
   | 'asset_create'
   | 'asset_delete'
+  | 'asset_exit'
+  | 'asset_patch'
   | 'notification'
+  | 'subscribe'
+  | 'subscribed'
+  | 'resume'
+  | 'resumed'
+  | 'reload_required'
+  | 'error'
   | 'ping'
   | 'pong'
   | 'connected';
@@ -70,9 +286,24 @@ export type WSMessageType =
 export interface WSMessage {
   type: WSMessageType;
   data?: any;
+  /**
+   * Change log sequence number of asset_* messages; resumed, reload_required
+   * and pong carry the number the client has caught up to
+   */
+  seq?: number;
   timestamp: string;
 }
 
+/**
+ * Asset changes a WebSocket client wants to receive
+ * Omitted fields do not filter; bbox is [minLon, minLat, maxLon, maxLat].
+ */
+export interface AssetSubscription {
+  bbox?: [number, number, number, number];
+  types?: AssetType[];
+  statuses?: AssetStatus[];
+}
+
 /**
  * Notification payload broadcasted to clients and push subscribers
  */
@@ -80,6 +311,7 @@ export type NotificationSeverity = 'info' | 'success' | 'warning' | 'critical';
 
 export interface NotificationPayload {
   id: string;
+  tenant: string;
   source: 'api' | 'websocket' | 'kafka' | 'system';
   type: string;
   severity: NotificationSeverity;
@@ -89,6 +321,46 @@ export interface NotificationPayload {
   createdAt: string;
 }
 
+/**
+ * When an alert rule publishes a notification
+ * - transition: once, when an asset starts matching the rule
+ * - always: on every change of an asset while it matches
+ */
+export type RuleTrigger = 'transition' | 'always';
+
+/**
+ * Alert rule evaluated on every asset change
+ */
+export interface AlertRule {
+  id: string;
+  name: string;
+  description: string | null;
+  assetType: AssetType | null;
+  condition: string | null; // Filter expression, e.g. "properties.speed > 100"
+  zoneId: string | null; // Zone the asset must intersect
+  severity: NotificationSeverity;
+  trigger: RuleTrigger;
+  message: string | null;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Body of POST /api/rules and PUT /api/rules/:id
+ */
+export interface AlertRuleInput {
+  name: string;
+  description?: string | null;
+  assetType?: AssetType | null;
+  condition?: string | null;
+  zoneId?: string | null;
+  severity?: NotificationSeverity;
+  trigger?: RuleTrigger;
+  message?: string | null;
+  enabled?: boolean;
+}
+
 /**
  * Push subscription payload from client
  */
@@ -108,6 +380,90 @@ export interface PushSubscriptionRecord extends PushSubscriptionRequest {
   updatedAt: string;
 }
 
+/**
+ * Tenant (workspace) of an organisation sharing the dashboard
+ */
+export interface Tenant {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+/**
+ * Roles granting permissions (see permissions.ts)
+ */
+export type Role = 'viewer' | 'dispatcher' | 'editor' | 'admin';
+
+/**
+ * Who made a request
+ * assetTypes narrows the asset types the roles may change (null: no limit).
+ * expiresAt (epoch milliseconds) is when the credentials stop being valid;
+ * WebSocket connections are closed then.
+ */
+export interface Principal {
+  kind: 'user' | 'api_key' | 'anonymous';
+  id: string;
+  name: string;
+  roles: Role[];
+  assetTypes: AssetType[] | null;
+  // Tenant the principal is bound to, null when it may pick any
+  tenant: string | null;
+  expiresAt: number | null;
+}
+
+/**
+ * API key of a machine integration, without the key itself
+ */
+export interface ApiKey {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  role: Role;
+  assetTypes: AssetType[] | null;
+  tenant: string | null;
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+/**
+ * Codes of the API's error answers (see errors.ts)
+ */
+export type ApiErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'UNSUPPORTED_MEDIA_TYPE'
+  | 'INTERNAL_ERROR'
+  | 'SERVICE_UNAVAILABLE';
+
+/**
+ * A field of a request and what is wrong with it
+ * field is a JSON Pointer into the body or parameters, absent when the
+ * problem is not tied to one field.
+ */
+export interface FieldError {
+  field?: string;
+  message: string;
+}
+
+/**
+ * Body of every error answer of the API
+ * details depend on the code: FieldErrors for VALIDATION_FAILED, the missing
+ * permission for FORBIDDEN, the current asset for a version CONFLICT.
+ */
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    details: unknown;
+    requestId: string;
+  };
+}
+
 /**
  * API query parameters for filtering assets
  */
@@ -115,6 +471,9 @@ export interface AssetQueryParams {
   type?: AssetType;
   status?: AssetStatus;
   bbox?: string; // Bounding box: "minLon,minLat,maxLon,maxLat"
+  asOf?: string; // ISO 8601 timestamp for point-in-time queries
   limit?: number;
   offset?: number;
+  cursor?: string; // Opaque keyset cursor from a previous page's nextCursor
+  filter?: string; // Filter expression, e.g. "properties.speed > 50"
 }
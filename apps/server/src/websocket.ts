@@ -1,11 +1,8 @@
-import { Elysia } from 'elysia';
+import { Elysia, getSchemaValidator } from 'elysia';
 import { sql } from './db';
-import type { WSMessage } from './types';
-
-/**
- * Topic name for WebSocket pub/sub
- */
-const ASSETS_TOPIC = 'assets-updates';
+import { assetSubscription } from './schemas';
+import { tenancy } from './tenants';
+import type { AssetStatus, AssetSubscription, AssetType, Principal, WSMessage } from './types';
 
 /**
  * Track active subscriber count
@@ -25,187 +22,544 @@ export function setAppInstance(app: any) {
 }
 
 /**
- * Broadcast a message to all connected clients using Elysia's pub/sub
+ * Close code sent to clients whose credentials expired
+ */
+const CLOSE_UNAUTHORIZED = 4401;
+
+/**
+ * Connected clients, who they are and the asset changes each one subscribed to
+ * Clients only hear about their tenant; those that never sent a "subscribe"
+ * message receive every change of it.
  */
-export function broadcast(message: WSMessage) {
+interface Client {
+  send(data: string): unknown;
+  close(code: number, reason: string): unknown;
+  principal: Principal;
+  tenant: string;
+  subscription: AssetSubscription;
+  // Live changes held back while the changes the client missed are replayed
+  held: { seq: number; data: string }[] | null;
+}
+
+const clients = new Map<string, Client>();
+
+const subscriptionValidator = getSchemaValidator(assetSubscription)!;
+
+/**
+ * Type, status and bounding box of an asset, what subscriptions filter on
+ */
+interface AssetScope {
+  type: AssetType;
+  status: AssetStatus;
+  bbox: [number, number, number, number];
+}
+
+function matchesSubscription({ bbox, types, statuses }: AssetSubscription, scope: AssetScope) {
+  if (types && !types.includes(scope.type)) return false;
+  if (statuses && !statuses.includes(scope.status)) return false;
+
+  return !bbox || (
+    bbox[0] <= scope.bbox[2] &&
+    bbox[2] >= scope.bbox[0] &&
+    bbox[1] <= scope.bbox[3] &&
+    bbox[3] >= scope.bbox[1]
+  );
+}
+
+/**
+ * Validate the data of a "subscribe" message
+ * Returns the subscription, or the reasons it was rejected
+ */
+function parseSubscription(data: unknown): AssetSubscription | string[] {
+  const subscription = data ?? {};
+
+  if (!subscriptionValidator.Check(subscription)) {
+    return [...subscriptionValidator.Errors(subscription)].map((error) => `${error.path || '/'}: ${error.message}`);
+  }
+
+  const { bbox } = subscription as AssetSubscription;
+  if (bbox && (bbox[0] > bbox[2] || bbox[1] > bbox[3])) {
+    return ['/bbox: minimum must not exceed maximum'];
+  }
+
+  return subscription as AssetSubscription;
+}
+
+/**
+ * Whether a client's credentials are still valid
+ * Clients whose credentials expired are disconnected; they reconnect with
+ * fresh ones.
+ */
+function isAuthenticated(id: string, client: Client) {
+  if (client.principal.expiresAt === null || client.principal.expiresAt > Date.now()) {
+    return true;
+  }
+
+  clients.delete(id);
+  client.close(CLOSE_UNAUTHORIZED, 'Credentials expired');
+  return false;
+}
+
+/**
+ * Broadcast a message to every authenticated client, or to those of a tenant
+ */
+export function broadcast(message: WSMessage, tenant?: string) {
   if (!appInstance?.server) {
     console.warn('Cannot broadcast: server instance not available');
     return;
   }
 
   const messageStr = JSON.stringify(message);
-  appInstance.server.publish(ASSETS_TOPIC, messageStr);
+  clients.forEach((client, id) => {
+    if ((!tenant || client.tenant === tenant) && isAuthenticated(id, client)) client.send(messageStr);
+  });
 }
 
 /**
- * Poll database for changes and broadcast updates
- * This is a simple polling mechanism - for production,
- * consider using PostgreSQL LISTEN/NOTIFY for better performance
+ * Asset changes announced by the notify_assets_change trigger
+ * Every change reaches the clients, including changes made directly in SQL
+ * or by other processes.
  */
-let lastCheckTime = new Date();
-const POLL_INTERVAL = 5000; // 5 seconds
+const CHANGES_CHANNEL = 'asset_changes';
 
-async function pollForUpdates() {
-  // Only poll if we have active subscribers
-  if (subscriberCount === 0) {
-    return;
-  }
+// Notifications arriving within this window are loaded with one query
+const FLUSH_DELAY = 25; // milliseconds
 
-  try {
-    const currentTime = new Date();
+/**
+ * A client that missed more changes than this reloads instead of resuming
+ */
+const REPLAY_LIMIT = Number(Bun.env.WS_REPLAY_LIMIT) || 5000;
+
+type ChangeOperation = 'create' | 'update' | 'delete';
+
+interface PendingChange {
+  // Change log sequence number of the latest change
+  seq: number;
+  op: ChangeOperation;
+  tenant: string;
+  // Scope before the first pending change, null when the asset was created
+  previous: AssetScope | null;
+  // A single update whose merge patch is in the change log
+  patched: boolean;
+}
 
-    // Get assets created since last check (created_at equals updated_at for new records)
-    const created = await sql`
-      SELECT
-        id,
-        name,
-        type,
-        status,
-        ST_AsGeoJSON(geometry)::jsonb as geometry,
-        properties,
-        created_at,
-        updated_at
-      FROM assets
-      WHERE created_at > ${lastCheckTime}
-        AND created_at = updated_at
-        AND deleted_at IS NULL
-      ORDER BY created_at DESC
-    `;
+// Latest pending operation per asset id
+const pendingChanges = new Map<string, PendingChange>();
+let flushTimer: Timer | null = null;
+// Flushes run one after the other so changes go out in sequence order
+let flushing: Promise<void> = Promise.resolve();
+let listener: { unlisten: () => Promise<void> } | null = null;
+
+// Highest sequence number sent to every client it concerned
+let deliveredSeq = 0;
+
+/**
+ * Fold a change into the pending changes of its asset
+ * A create followed by updates is still a create for clients, and clients
+ * judge the net change against the scope before the first one.
+ */
+function mergeChange(changes: Map<string, PendingChange>, id: string, change: PendingChange) {
+  const pending = changes.get(id);
+
+  changes.set(id, {
+    seq: change.seq,
+    op: pending?.op === 'create' && change.op === 'update' ? 'create' : change.op,
+    tenant: change.tenant,
+    previous: pending ? pending.previous ?? change.previous : change.previous,
+    patched: !pending && change.op === 'update' && change.patched,
+  });
+}
+
+/**
+ * Net change of one asset, ready to send
+ * - changed: asset_create / asset_update message, when the asset still exists
+ * - patched: asset_patch message, for a single update with a merge patch
+ * - removed: asset_exit message, or asset_delete when the asset is gone
+ */
+interface PreparedChange {
+  seq: number;
+  tenant: string;
+  current: AssetScope | null;
+  previous: AssetScope | null;
+  changed: string | null;
+  patched: string | null;
+  removed: string;
+}
 
-    if (created.length > 0) {
-      created.forEach((asset) => {
-        broadcast({
-          type: 'asset_create',
-          data: {
-            type: 'Feature',
-            id: asset.id,
-            geometry: asset.geometry,
-            properties: {
+/**
+ * Load the changed assets as GeoJSON features and build their messages,
+ * in sequence order
+ */
+async function prepareChanges(changes: Map<string, PendingChange>): Promise<PreparedChange[]> {
+  const changedIds = Array.from(changes.entries())
+    .filter(([, change]) => change.op !== 'delete')
+    .map(([id]) => id);
+
+  const rows = changedIds.length > 0
+    ? await sql`
+        SELECT
+          id,
+          name,
+          type,
+          status,
+          ST_AsGeoJSON(geometry)::jsonb as geometry,
+          properties,
+          created_at,
+          updated_at,
+          version,
+          ST_XMin(geometry) as min_x,
+          ST_YMin(geometry) as min_y,
+          ST_XMax(geometry) as max_x,
+          ST_YMax(geometry) as max_y
+        FROM assets
+        WHERE id = ANY(${changedIds}::uuid[]) AND deleted_at IS NULL
+      `
+    : [];
+
+  const patchedSeqs = Array.from(changes.values())
+    .filter((change) => change.patched)
+    .map((change) => change.seq);
+
+  const patchRows = patchedSeqs.length > 0
+    ? await sql<{ seq: number; patch: Record<string, any> }[]>`
+        SELECT seq::float8 as seq, patch
+        FROM asset_change_log
+        WHERE seq = ANY(${patchedSeqs}::bigint[]) AND patch IS NOT NULL
+      `
+    : [];
+
+  const assets = new Map(rows.map((asset) => [asset.id, asset]));
+  const patches = new Map(patchRows.map((row) => [row.seq, row.patch]));
+  const timestamp = new Date().toISOString();
+
+  return Array.from(changes.entries())
+    .sort(([, a], [, b]) => a.seq - b.seq)
+    .map(([id, { seq, op, tenant, previous }]) => {
+      const asset = op === 'delete' ? undefined : assets.get(id);
+
+      const changed = asset
+        ? JSON.stringify({
+            type: op === 'create' ? 'asset_create' : 'asset_update',
+            data: {
+              type: 'Feature',
               id: asset.id,
-              name: asset.name,
-              type: asset.type,
-              status: asset.status,
-              createdAt: asset.created_at,
-              updatedAt: asset.updated_at,
-              ...asset.properties,
+              geometry: asset.geometry,
+              properties: {
+                id: asset.id,
+                name: asset.name,
+                type: asset.type,
+                status: asset.status,
+                createdAt: asset.created_at,
+                updatedAt: asset.updated_at,
+                version: asset.version,
+                ...asset.properties,
+              },
             },
-          },
-          timestamp: new Date().toISOString(),
-        });
+            seq,
+            timestamp,
+          } satisfies WSMessage)
+        : null;
+
+      const patch = patches.get(seq);
+      const patched = asset && patch
+        ? JSON.stringify({
+            type: 'asset_patch',
+            data: { id, patch, version: asset.version, updatedAt: asset.updated_at },
+            seq,
+            timestamp,
+          } satisfies WSMessage)
+        : null;
+
+      const removed = JSON.stringify({
+        type: asset ? 'asset_exit' : 'asset_delete',
+        data: { id },
+        seq,
+        timestamp,
+      } satisfies WSMessage);
+
+      return {
+        seq,
+        tenant,
+        current: asset
+          ? { type: asset.type, status: asset.status, bbox: [asset.min_x, asset.min_y, asset.max_x, asset.max_y] }
+          : null,
+        previous,
+        changed,
+        patched,
+        removed,
+      };
+    });
+}
+
+/**
+ * What a client receives for a change of its tenant: the asset when it
+ * matches the client's subscription now (only the patch when it matched
+ * before as well), its removal when it only matched before
+ */
+function messageFor(client: Client, change: PreparedChange) {
+  if (change.tenant !== client.tenant) return null;
+
+  if (change.current && matchesSubscription(client.subscription, change.current)) {
+    const hadAsset = change.previous && matchesSubscription(client.subscription, change.previous);
+    return (hadAsset && change.patched) || change.changed;
+  }
+
+  if (change.previous && matchesSubscription(client.subscription, change.previous)) {
+    return change.removed;
+  }
+
+  return null;
+}
+
+/**
+ * Send the pending changes to the clients they concern
+ * If the changed assets cannot be loaded, clients are told to reload since
+ * they would otherwise miss the changes for good.
+ */
+async function flushChanges() {
+  const changes = new Map(pendingChanges);
+  pendingChanges.clear();
+
+  if (changes.size === 0) return;
+
+  try {
+    const prepared = await prepareChanges(changes);
+    let sent = 0;
+
+    prepared.forEach((change) => {
+      clients.forEach((client, id) => {
+        if (!isAuthenticated(id, client)) return;
+
+        const data = messageFor(client, change);
+        if (!data) return;
+
+        if (client.held) {
+          client.held.push({ seq: change.seq, data });
+        } else {
+          client.send(data);
+        }
+        sent++;
       });
+    });
 
-      console.log(`📡 Broadcasted ${created.length} asset creation(s)`);
+    deliveredSeq = Math.max(deliveredSeq, prepared[prepared.length - 1].seq);
+
+    console.log(`📡 Sent ${changes.size} asset change(s) as ${sent} message(s)`);
+  } catch (error) {
+    console.error('❌ Error broadcasting asset changes:', {
+      error,
+      message: error instanceof Error ? error.message : undefined,
+      subscriberCount,
+    });
+
+    broadcast({
+      type: 'reload_required',
+      data: { reason: 'Failed to load asset changes' },
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+function handleChange(payload: string) {
+  try {
+    const { seq, op, id, tenant, previous, patched } = JSON.parse(payload) as PendingChange & { id: string };
+
+    mergeChange(pendingChanges, id, { seq, op, tenant, previous, patched: patched === true });
+
+    if (!flushTimer) {
+      flushTimer = setTimeout(() => {
+        flushTimer = null;
+        flushing = flushing.then(flushChanges);
+      }, FLUSH_DELAY);
     }
+  } catch (error) {
+    console.error('❌ Invalid asset change notification:', payload, error);
+  }
+}
+
+/**
+ * Why a client that last received lastSeq cannot resume, if it cannot
+ */
+function reloadReason(
+  lastSeq: number,
+  log: { first_seq: number | null; last_seq: number | null; missed: number }
+) {
+  if (log.first_seq === null || log.last_seq === null) {
+    return lastSeq > 0 ? 'The change log is empty' : null;
+  }
+
+  if (lastSeq > log.last_seq) return 'The change log was reset';
+  if (log.first_seq > lastSeq + 1) return 'The missed changes are no longer in the change log';
+  if (log.missed > REPLAY_LIMIT) return 'Too many changes were missed';
 
-    // Get assets updated since last check (updated_at > created_at for modified records)
-    const updates = await sql`
+  return null;
+}
+
+/**
+ * Replay the changes of its tenant a reconnecting client missed after lastSeq
+ * Sequence numbers are shared by all tenants, so the log bounds are global.
+ * Each changed asset is sent once, as it is now. Live changes are held back
+ * meanwhile and sent afterwards, minus those the replay covered. A client the
+ * change log cannot catch up is told to reload instead.
+ */
+async function resumeClient(client: Client, lastSeq: number) {
+  client.held = [];
+  let coveredSeq = lastSeq;
+
+  try {
+    const [log] = await sql<{ first_seq: number | null; last_seq: number | null; missed: number }[]>`
       SELECT
-        id,
-        name,
-        type,
-        status,
-        ST_AsGeoJSON(geometry)::jsonb as geometry,
-        properties,
-        created_at,
-        updated_at
-      FROM assets
-      WHERE updated_at > ${lastCheckTime}
-        AND updated_at > created_at
-        AND deleted_at IS NULL
-      ORDER BY updated_at DESC
+        MIN(seq)::float8 as first_seq,
+        MAX(seq)::float8 as last_seq,
+        COUNT(*) FILTER (WHERE seq > ${lastSeq} AND tenant_id = ${client.tenant})::int as missed
+      FROM asset_change_log
     `;
 
-    if (updates.length > 0) {
-      updates.forEach((asset) => {
-        broadcast({
-          type: 'asset_update',
-          data: {
-            type: 'Feature',
-            id: asset.id,
-            geometry: asset.geometry,
-            properties: {
-              id: asset.id,
-              name: asset.name,
-              type: asset.type,
-              status: asset.status,
-              createdAt: asset.created_at,
-              updatedAt: asset.updated_at,
-              ...asset.properties,
-            },
-          },
-          timestamp: new Date().toISOString(),
-        });
-      });
+    const reason = reloadReason(lastSeq, log);
 
-      console.log(`📡 Broadcasted ${updates.length} asset update(s)`);
+    if (reason) {
+      // The reload covers every change logged so far
+      coveredSeq = log.last_seq ?? lastSeq;
+      client.send(
+        JSON.stringify({
+          type: 'reload_required',
+          data: { reason },
+          seq: log.last_seq ?? 0,
+          timestamp: new Date().toISOString(),
+        } satisfies WSMessage)
+      );
+      return;
     }
 
-    // Get assets deleted since last check
-    const deleted = await sql`
-      SELECT id
-      FROM assets
-      WHERE deleted_at > ${lastCheckTime}
-        AND deleted_at IS NOT NULL
-      ORDER BY deleted_at DESC
+    const rows = await sql<
+      {
+        seq: number;
+        asset_id: string;
+        tenant_id: string;
+        operation: ChangeOperation;
+        previous: AssetScope | null;
+        patched: boolean;
+      }[]
+    >`
+      SELECT seq::float8 as seq, asset_id, tenant_id, operation, previous, patch IS NOT NULL as patched
+      FROM asset_change_log
+      WHERE seq > ${lastSeq} AND tenant_id = ${client.tenant}
+      ORDER BY seq
     `;
 
-    if (deleted.length > 0) {
-      deleted.forEach((asset) => {
-        broadcast({
-          type: 'asset_delete',
-          data: {
-            id: asset.id,
-          },
-          timestamp: new Date().toISOString(),
-        });
+    const changes = new Map<string, PendingChange>();
+    rows.forEach((row) => {
+      mergeChange(changes, row.asset_id, {
+        seq: row.seq,
+        op: row.operation,
+        tenant: row.tenant_id,
+        previous: row.previous,
+        patched: row.patched,
       });
+    });
 
-      console.log(`📡 Broadcasted ${deleted.length} asset deletion(s)`);
+    const prepared = await prepareChanges(changes);
+    let replayed = 0;
+
+    prepared.forEach((change) => {
+      const data = messageFor(client, change);
+      if (!data) return;
+
+      client.send(data);
+      replayed++;
+    });
+
+    if (rows.length > 0) {
+      coveredSeq = rows[rows.length - 1].seq;
     }
 
-    lastCheckTime = currentTime;
+    client.send(
+      JSON.stringify({
+        type: 'resumed',
+        data: { from: lastSeq, replayed },
+        seq: coveredSeq,
+        timestamp: new Date().toISOString(),
+      } satisfies WSMessage)
+    );
+
+    console.log(`📡 Replayed ${replayed} missed asset change(s) after #${lastSeq}`);
   } catch (error) {
-    console.error('❌ Error polling for updates:', {
-      error,
-      message: error instanceof Error ? error.message : undefined,
-      subscriberCount,
+    console.error('❌ Error replaying missed asset changes:', error);
+
+    client.send(
+      JSON.stringify({
+        type: 'reload_required',
+        data: { reason: 'Failed to replay the missed changes' },
+        timestamp: new Date().toISOString(),
+      } satisfies WSMessage)
+    );
+  } finally {
+    const held = client.held ?? [];
+    client.held = null;
+
+    held
+      .filter((message) => message.seq > coveredSeq)
+      .forEach((message) => client.send(message.data));
+  }
+}
+
+export async function startListening() {
+  if (listener) return;
+
+  try {
+    listener = await sql.listen(CHANGES_CHANNEL, handleChange, () => {
+      console.log(`📡 Listening for asset changes on "${CHANGES_CHANNEL}"`);
     });
-    // Don't throw - keep polling even if one cycle fails
+  } catch (error) {
+    console.error('❌ Failed to listen for asset changes:', error);
   }
 }
 
-// Start polling when this module is loaded
-let pollTimer: Timer | null = null;
+export async function stopListening() {
+  if (!listener) return;
 
-export function startPolling() {
-  if (pollTimer) return;
+  const current = listener;
+  listener = null;
 
-  console.log('📡 Started WebSocket update polling');
-  pollTimer = setInterval(pollForUpdates, POLL_INTERVAL);
-}
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  pendingChanges.clear();
 
-export function stopPolling() {
-  if (pollTimer) {
-    clearInterval(pollTimer);
-    pollTimer = null;
-    console.log('📡 Stopped WebSocket update polling');
+  try {
+    await current.unlisten();
+    console.log('📡 Stopped listening for asset changes');
+  } catch (error) {
+    console.error('❌ Error stopping asset change listener:', error);
   }
 }
 
 /**
  * WebSocket plugin for Elysia
+ * The upgrade requires credentials and selects a tenant like the API (the
+ * tenant query parameter standing in for X-Tenant-ID); messages are sent to
+ * each client on its own, filtered by its tenant and subscription.
  */
 export const websocket = new Elysia()
+  .use(tenancy)
   .ws('/ws', {
     open(ws) {
       try {
         console.log('🔌 WebSocket open handler called');
 
-        // Subscribe to the assets updates topic
-        ws.subscribe(ASSETS_TOPIC);
+        const principal = ws.data.principal!;
+        clients.set(ws.id, {
+          send: (data) => ws.send(data),
+          close: (code, reason) => ws.close(code, reason),
+          principal,
+          tenant: ws.data.tenant,
+          subscription: {},
+          held: null,
+        });
         subscriberCount++;
 
-        console.log(`✅ Client connected. Total subscribers: ${subscriberCount}`);
+        console.log(`✅ ${principal.name} connected to ${ws.data.tenant}. Total subscribers: ${subscriberCount}`);
 
         // Send welcome message
         try {
@@ -221,13 +575,13 @@ export const websocket = new Elysia()
           console.error('❌ Error sending welcome message:', sendError);
         }
 
-        // Start polling if this is the first connection
+        // Start listening if this is the first connection
         if (subscriberCount === 1) {
-          console.log('📡 Starting database polling (first connection)');
-          startPolling();
+          startListening();
         }
       } catch (error) {
         console.error('❌ Error in WebSocket open handler:', error);
+        clients.delete(ws.id);
         subscriberCount = Math.max(0, subscriberCount - 1);
         throw error;
       }
@@ -239,11 +593,15 @@ export const websocket = new Elysia()
         console.log('📨 Message received:', data.type);
 
         // Handle ping/pong for connection keepalive
+        // The pong carries the last delivered sequence number, so clients
+        // whose subscription matched nothing lately still move forward
         if (data.type === 'ping') {
           try {
+            const client = clients.get(ws.id);
             ws.send(
               JSON.stringify({
                 type: 'pong',
+                ...(client && !client.held && deliveredSeq > 0 ? { seq: deliveredSeq } : {}),
                 timestamp: new Date().toISOString(),
               })
             );
@@ -252,6 +610,49 @@ export const websocket = new Elysia()
             console.error('❌ Error sending pong:', sendError);
           }
         }
+
+        // Replace the client's subscription
+        if (data.type === 'subscribe') {
+          const client = clients.get(ws.id);
+          const subscription = parseSubscription(data.data);
+
+          if (Array.isArray(subscription)) {
+            ws.send(
+              JSON.stringify({
+                type: 'error',
+                data: { message: 'Invalid subscription', details: subscription },
+                timestamp: new Date().toISOString(),
+              })
+            );
+          } else if (client) {
+            client.subscription = subscription;
+            ws.send(
+              JSON.stringify({
+                type: 'subscribed',
+                data: subscription,
+                timestamp: new Date().toISOString(),
+              })
+            );
+          }
+        }
+
+        // Replay the changes missed since the last one the client received
+        if (data.type === 'resume') {
+          const client = clients.get(ws.id);
+          const lastSeq = data.data?.lastSeq;
+
+          if (!Number.isSafeInteger(lastSeq) || lastSeq < 0) {
+            ws.send(
+              JSON.stringify({
+                type: 'error',
+                data: { message: 'Invalid resume', details: ['/lastSeq: Expected a non-negative integer'] },
+                timestamp: new Date().toISOString(),
+              })
+            );
+          } else if (client && !client.held) {
+            resumeClient(client, lastSeq);
+          }
+        }
       } catch (error) {
         console.error('❌ Error handling WebSocket message:', error);
       }
@@ -261,21 +662,14 @@ export const websocket = new Elysia()
       try {
         console.log(`🔌 WebSocket close handler called (code: ${code}, message: ${message || 'none'})`);
 
-        // Unsubscribe from the topic
-        try {
-          ws.unsubscribe(ASSETS_TOPIC);
-        } catch (unsubError) {
-          console.error('❌ Error unsubscribing:', unsubError);
-        }
-
+        clients.delete(ws.id);
         subscriberCount = Math.max(0, subscriberCount - 1);
 
         console.log(`✅ Client disconnected. Total subscribers: ${subscriberCount}`);
 
-        // Stop polling if no more connections
+        // Stop listening if no more connections
         if (subscriberCount === 0) {
-          console.log('📡 Stopping database polling (no more connections)');
-          stopPolling();
+          stopListening();
         }
       } catch (error) {
         console.error('❌ Error in close handler:', error);
@@ -285,11 +679,13 @@ export const websocket = new Elysia()
 
 // Cleanup on process exit
 process.on('SIGTERM', () => {
-  stopPolling();
+  stopListening();
+  clients.clear();
   subscriberCount = 0;
 });
 
 process.on('SIGINT', () => {
-  stopPolling();
+  stopListening();
+  clients.clear();
   subscriberCount = 0;
 });